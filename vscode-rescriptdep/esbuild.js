@@ -1,4 +1,6 @@
 const esbuild = require("esbuild");
+const fs = require("fs");
+const path = require("path");
 
 const production = process.argv.includes('--production');
 const watch = process.argv.includes('--watch');
@@ -23,10 +25,26 @@ const esbuildProblemMatcherPlugin = {
 	},
 };
 
+/**
+ * Copies the Viz.js standalone build (Graphviz compiled to WASM) into media/
+ * so the webview can load it without network access.
+ */
+function copyWebviewAssets() {
+	const mediaDir = path.join(__dirname, 'media');
+	fs.mkdirSync(mediaDir, { recursive: true });
+	fs.copyFileSync(
+		require.resolve('@viz-js/viz'),
+		path.join(mediaDir, 'viz-standalone.js')
+	);
+}
+
 async function main() {
+	copyWebviewAssets();
 	const ctx = await esbuild.context({
 		entryPoints: [
-			'src/extension.ts'
+			'src/extension.ts',
+			// Headless `bibimbob-check` command (see "bin" in package.json)
+			'src/check.ts'
 		],
 		bundle: true,
 		format: 'cjs',
@@ -34,7 +52,7 @@ async function main() {
 		sourcemap: !production,
 		sourcesContent: false,
 		platform: 'node',
-		outfile: 'dist/extension.js',
+		outdir: 'dist',
 		external: ['vscode'],
 		logLevel: 'silent',
 		plugins: [
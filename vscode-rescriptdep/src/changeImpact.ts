@@ -0,0 +1,162 @@
+// Map changed source files to modules of a dependency graph and find every module the change
+// can affect, i.e. the modules that depend on a changed module at any depth, and the tests among them.
+
+import * as path from 'path';
+
+import { DependencyGraph, collectReachableModules, createSubgraph, getModuleNames } from './dependencyGraph';
+import { createModuleMatcher } from './dependencyRules';
+
+const SOURCE_EXTENSIONS = ['.res', '.resi'];
+
+// Test modules are named like `Parser_test` or `ParserTest`
+export const DEFAULT_TEST_MODULE_PATTERNS = ['*_test', '*Test'];
+
+export interface ChangeImpact {
+  // Modules whose implementation or interface file changed
+  changed: string[];
+  // Modules that transitively depend on a changed module (excluding the changed ones)
+  affected: string[];
+}
+
+// Module name of a ReScript source file: the file name without extension, capitalized
+export function getModuleNameForFile(filePath: string): string | undefined {
+  const extension = path.extname(filePath);
+  if (!SOURCE_EXTENSIONS.includes(extension)) {
+    return undefined;
+  }
+  const baseName = path.basename(filePath, extension);
+  return baseName.charAt(0).toUpperCase() + baseName.slice(1);
+}
+
+function isInsideDirectory(filePath: string, dir: string): boolean {
+  return filePath.startsWith(dir + path.sep);
+}
+
+// Whether a file belongs to the project itself rather than to another project, which can also
+// be nested in it (e.g. the packages of a monorepo whose root is a project too)
+function isProjectFile(filePath: string, projectRoot: string, otherProjectRoots: string[]): boolean {
+  return isInsideDirectory(filePath, projectRoot) && !otherProjectRoots.some(root =>
+    root !== projectRoot && isInsideDirectory(root, projectRoot) && isInsideDirectory(filePath, root));
+}
+
+// Find the graph modules of a list of source files. A file is matched by the module's reported path
+// (an interface file by its implementation), and otherwise by name, including namespaced names
+// such as `Logger-App`. Matching by name only applies to files of the project at `projectRoot`,
+// so that a same-named module of another package does not count. Files that are not ReScript
+// sources or not in the graph are skipped.
+export function findModulesForFiles(
+  graph: DependencyGraph,
+  filePaths: string[],
+  projectRoot: string,
+  otherProjectRoots: string[] = []
+): string[] {
+  const modulesByPath = new Map<string, string>();
+  for (const node of graph.modules.values()) {
+    if (node.path) {
+      modulesByPath.set(path.resolve(node.path), node.name);
+    }
+  }
+  const names = getModuleNames(graph);
+
+  const found = new Set<string>();
+  for (const filePath of filePaths) {
+    const moduleName = getModuleNameForFile(filePath);
+    if (!moduleName) {
+      continue;
+    }
+    const resolvedPath = path.resolve(filePath);
+    const byPath = modulesByPath.get(resolvedPath) ?? modulesByPath.get(resolvedPath.replace(/\.resi$/, '.res'));
+    if (byPath) {
+      found.add(byPath);
+      continue;
+    }
+    if (!isProjectFile(resolvedPath, path.resolve(projectRoot), otherProjectRoots.map(root => path.resolve(root)))) {
+      continue;
+    }
+    const byName = graph.modules.has(moduleName)
+      ? moduleName
+      : names.find(name => name.startsWith(`${moduleName}-`));
+    if (byName) {
+      found.add(byName);
+    }
+  }
+  return Array.from(found).sort();
+}
+
+// Changed modules of the graph of the project at `projectRoot` and their transitive dependents
+export function computeChangeImpact(
+  graph: DependencyGraph,
+  changedFiles: string[],
+  projectRoot: string,
+  otherProjectRoots: string[] = []
+): ChangeImpact {
+  const changed = findModulesForFiles(graph, changedFiles, projectRoot, otherProjectRoots);
+  const affected = new Set<string>();
+  for (const name of changed) {
+    collectReachableModules(graph, name, 'dependents').forEach(dependent => affected.add(dependent));
+  }
+  changed.forEach(name => affected.delete(name));
+  return { changed, affected: Array.from(affected).sort() };
+}
+
+// Graph of the changed and affected modules with the dependencies between them
+export function createImpactGraph(graph: DependencyGraph, impact: ChangeImpact): DependencyGraph {
+  return createSubgraph(graph, [...impact.changed, ...impact.affected]);
+}
+
+// Plain-text (Markdown) summary to paste into a pull request
+export function formatImpactReport(impact: ChangeImpact, baseRef: string): string {
+  const list = (names: string[]) => names.length > 0 ? names.map(name => `- ${name}`) : ['- (none)'];
+  return [
+    `Changed modules since ${baseRef} (${impact.changed.length}):`,
+    ...list(impact.changed),
+    '',
+    `Affected modules (${impact.affected.length}):`,
+    ...list(impact.affected),
+    ''
+  ].join('\n');
+}
+
+// Test modules that a change can break: changed test modules and test modules that depend on a
+// changed module. Patterns are globs over module names, or over paths relative to `root` when they
+// contain a `/`, like in the dependency rules.
+export function findAffectedTests(graph: DependencyGraph, impact: ChangeImpact, patterns: string[], root: string): string[] {
+  const matchesAny = createModuleMatcher(graph, root);
+  return [...impact.changed, ...impact.affected]
+    .filter(name => !graph.modules.get(name)?.external && matchesAny(name, patterns))
+    .sort();
+}
+
+// Source files of test modules relative to `root`, with `/` separators; modules without a known
+// path are listed by name
+export function getTestFiles(graph: DependencyGraph, tests: string[], root: string): string[] {
+  return tests.map(name => {
+    const modulePath = graph.modules.get(name)?.path;
+    return modulePath ? path.relative(root, modulePath).split(path.sep).join('/') : name;
+  });
+}
+
+// A test command split into the program and its arguments, so that the task running it can quote
+// the test files and module names for its shell. `isPlaceholder` marks the arguments filled in from
+// a placeholder; the others are words of the template, kept as written.
+export interface TestCommand {
+  command: string;
+  args: { value: string; isPlaceholder: boolean }[];
+}
+
+// Fill in a test command template: a word with `${files}` is repeated for every test file relative
+// to `root`, and a word with `${modules}` for every test module name
+export function createTestCommand(template: string, graph: DependencyGraph, tests: string[], root: string): TestCommand {
+  const files = getTestFiles(graph, tests, root);
+  const [command, ...words] = template.trim().split(/\s+/);
+  const args = words.flatMap(word => {
+    if (word.includes('${files}')) {
+      return files.map(file => ({ value: word.replace(/\$\{files\}/g, () => file), isPlaceholder: true }));
+    }
+    if (word.includes('${modules}')) {
+      return tests.map(name => ({ value: word.replace(/\$\{modules\}/g, () => name), isPlaceholder: true }));
+    }
+    return [{ value: word, isPlaceholder: false }];
+  });
+  return { command, args };
+}
@@ -0,0 +1,230 @@
+#!/usr/bin/env node
+// Headless `bibimbob-check` command, shipped with the extension: runs the unused module, cycle and
+// dependency rule checks without VS Code (e.g. in a pre-commit hook or CI) and exits with status 1
+// when it finds problems. Must not depend on the vscode module.
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { getModuleNames, parseDependencyGraph } from './dependencyGraph';
+import { loadRules } from './dependencyRules';
+import { getRepositoryRoot } from './git';
+import {
+  CHECK_KINDS,
+  CheckKind,
+  ProjectCheckResult,
+  collectFindings,
+  formatJson,
+  formatSarif,
+  formatText,
+  hasProblems
+} from './checkReport';
+import { CliRunOptions, DEFAULT_CLI_RUN_OPTIONS, getBundledCLIPath, isCLIOnPath, runRescriptDep } from './rescriptDep';
+import { readProjectName } from './workspaceGraph';
+
+type ReportFormat = 'text' | 'json' | 'sarif';
+
+interface CheckOptions {
+  projectRoots: string[];
+  format: ReportFormat;
+  checks: CheckKind[];
+  ignoreUnused: string[];
+  cliPath?: string;
+  buildDir: string;
+  // Highest directory searched for a rules file; by default each project's git repository root
+  rulesRoot?: string;
+  run: CliRunOptions;
+  help: boolean;
+}
+
+const USAGE = `Usage: bibimbob-check [options] [project...]
+
+Checks ReScript projects (default: the current directory) for unused modules, dependency
+cycles and violations of the .bibimbob.json dependency rules. Projects must be built first.
+Exits with status 1 when errors or warnings are found, and 2 when the check cannot run.
+
+Options:
+  --format <text|json|sarif>  Report format (default: text)
+  --checks <list>             Comma-separated checks to run: ${CHECK_KINDS.join(', ')} (default: all)
+  --ignore-unused <pattern>   Modules that may have no dependents, such as entry points (repeatable)
+  --cli <path>                rescriptdep binary (default: bundled CLI, then rescriptdep from PATH)
+  --build-dir <dir>           Build output directory relative to each project (default: lib/bs)
+  --root <dir>                Highest directory searched for .bibimbob.json (default: the git repository root)
+  --timeout-ms <ms>           Time limit for a single CLI run (default: ${DEFAULT_CLI_RUN_OPTIONS.timeoutMs})
+  --max-buffer-mb <mb>        Maximum size of the CLI output (default: ${DEFAULT_CLI_RUN_OPTIONS.maxBufferMB})
+  -h, --help                  Show this help`;
+
+const OPTION_NAMES = ['--format', '--checks', '--ignore-unused', '--cli', '--build-dir', '--root', '--timeout-ms', '--max-buffer-mb'];
+
+// Parse the command line; throws an error describing invalid usage
+function parseArguments(args: string[]): CheckOptions {
+  const options: CheckOptions = {
+    projectRoots: [],
+    format: 'text',
+    checks: CHECK_KINDS,
+    ignoreUnused: [],
+    buildDir: 'lib/bs',
+    run: { ...DEFAULT_CLI_RUN_OPTIONS },
+    help: false
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '-h' || arg === '--help') {
+      options.help = true;
+      continue;
+    }
+    if (!arg.startsWith('--')) {
+      options.projectRoots.push(path.resolve(arg));
+      continue;
+    }
+
+    // Both `--name value` and `--name=value`
+    const separatorIndex = arg.indexOf('=');
+    const name = separatorIndex >= 0 ? arg.slice(0, separatorIndex) : arg;
+    if (!OPTION_NAMES.includes(name)) {
+      throw new Error(`Unknown option ${name}`);
+    }
+    const value = separatorIndex >= 0 ? arg.slice(separatorIndex + 1) : args[++i];
+    if (value === undefined) {
+      throw new Error(`Missing value for ${name}`);
+    }
+    const toPositiveNumber = () => {
+      const number = Number(value);
+      if (!Number.isFinite(number) || number <= 0) {
+        throw new Error(`${name} must be a positive number`);
+      }
+      return number;
+    };
+
+    switch (name) {
+      case '--format':
+        if (value !== 'text' && value !== 'json' && value !== 'sarif') {
+          throw new Error(`Unknown format "${value}"`);
+        }
+        options.format = value;
+        break;
+      case '--checks': {
+        const checks = value.split(',').map(check => check.trim()).filter(check => check.length > 0);
+        const unknown = checks.find(check => !CHECK_KINDS.includes(check as CheckKind));
+        if (unknown !== undefined || checks.length === 0) {
+          throw new Error(`--checks must list some of ${CHECK_KINDS.join(', ')}`);
+        }
+        options.checks = checks as CheckKind[];
+        break;
+      }
+      case '--ignore-unused':
+        options.ignoreUnused.push(value);
+        break;
+      case '--cli':
+        options.cliPath = value;
+        break;
+      case '--build-dir':
+        options.buildDir = value;
+        break;
+      case '--root':
+        options.rulesRoot = path.resolve(value);
+        break;
+      case '--timeout-ms':
+        options.run.timeoutMs = toPositiveNumber();
+        break;
+      case '--max-buffer-mb':
+        options.run.maxBufferMB = toPositiveNumber();
+        break;
+    }
+  }
+
+  if (options.projectRoots.length === 0) {
+    options.projectRoots.push(process.cwd());
+  }
+  return options;
+}
+
+// Use the given binary, the one bundled next to this script, or rescriptdep from PATH
+function resolveCLIPath(configuredPath: string | undefined): string {
+  if (configuredPath) {
+    return configuredPath;
+  }
+  // dist/check.js sits next to the bin/ directory of the extension package
+  const bundledPath = getBundledCLIPath(path.resolve(__dirname, '..'));
+  if (fs.existsSync(bundledPath)) {
+    try {
+      fs.accessSync(bundledPath, fs.constants.X_OK);
+    } catch {
+      fs.chmodSync(bundledPath, 0o755);
+    }
+    return bundledPath;
+  }
+  if (isCLIOnPath()) {
+    return 'rescriptdep';
+  }
+  throw new Error('rescriptdep CLI cannot be found; pass --cli <path> or add rescriptdep to PATH');
+}
+
+async function checkProject(cliPath: string, projectRoot: string, options: CheckOptions): Promise<ProjectCheckResult> {
+  const buildDir = path.resolve(projectRoot, options.buildDir);
+  if (!fs.existsSync(buildDir)) {
+    throw new Error(`Build directory not found: ${buildDir}. Build the project before checking it.`);
+  }
+
+  const graph = parseDependencyGraph(await runRescriptDep(cliPath, ['--format=json', buildDir], options.run));
+  const unusedModules = options.checks.includes('unused')
+    ? getModuleNames(parseDependencyGraph(await runRescriptDep(cliPath, ['--format=json', '--no-dependents', buildDir], options.run)))
+    : [];
+  // Like the editor, which stops at the workspace folder, ignore rules files above the repository
+  const rules = options.checks.includes('rules')
+    ? loadRules(projectRoot, options.rulesRoot ?? await getRepositoryRoot(projectRoot).catch(() => projectRoot))
+    : undefined;
+
+  const findings = collectFindings({
+    graph,
+    unusedModules,
+    rules,
+    checks: options.checks,
+    ignoreUnused: options.ignoreUnused,
+    projectRoot,
+    readSource: filePath => {
+      try {
+        return fs.readFileSync(filePath, 'utf8');
+      } catch {
+        return undefined;
+      }
+    }
+  });
+  return { projectRoot, projectName: readProjectName(projectRoot), findings };
+}
+
+async function main(args: string[]): Promise<number> {
+  let options: CheckOptions;
+  try {
+    options = parseArguments(args);
+  } catch (error) {
+    console.error(`bibimbob-check: ${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+    return 2;
+  }
+  if (options.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  try {
+    const cliPath = resolveCLIPath(options.cliPath);
+    const results: ProjectCheckResult[] = [];
+    for (const projectRoot of options.projectRoots) {
+      results.push(await checkProject(cliPath, projectRoot, options));
+    }
+
+    const cwd = process.cwd();
+    process.stdout.write(options.format === 'json' ? formatJson(results)
+      : options.format === 'sarif' ? formatSarif(results, cwd)
+        : formatText(results, cwd));
+    return hasProblems(results) ? 1 : 0;
+  } catch (error) {
+    console.error(`bibimbob-check: ${error instanceof Error ? error.message : error}`);
+    return 2;
+  }
+}
+
+main(process.argv.slice(2)).then(exitCode => {
+  process.exitCode = exitCode;
+});
@@ -0,0 +1,195 @@
+// Findings of the headless `bibimbob-check` command and the text, JSON and SARIF reports it prints.
+// Uses the same graph model, cycle and rule checks as the extension, so the editor and CI agree.
+
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+
+import { describeCycleMember, findCycles, findModuleReference } from './cycles';
+import { DependencyGraph } from './dependencyGraph';
+import { DependencyRules, RuleSeverity, createModuleMatcher, describeViolation, evaluateRules } from './dependencyRules';
+
+export type CheckKind = 'unused' | 'cycles' | 'rules';
+
+export const CHECK_KINDS: CheckKind[] = ['unused', 'cycles', 'rules'];
+
+export type FindingLevel = 'error' | 'warning' | 'note';
+
+export type FindingRuleId = 'unused-module' | 'dependency-cycle' | 'dependency-rule';
+
+export interface CheckFinding {
+  ruleId: FindingRuleId;
+  level: FindingLevel;
+  module: string;
+  message: string;
+  // Source file of the module, if known
+  filePath?: string;
+  // 1-based position of the module's reference to the dependency at fault
+  line?: number;
+  column?: number;
+}
+
+export interface ProjectCheckResult {
+  projectRoot: string;
+  projectName: string;
+  findings: CheckFinding[];
+}
+
+export interface CheckInput {
+  // Full dependency graph of the project
+  graph: DependencyGraph;
+  // Modules without dependents, as listed by the CLI's `--no-dependents` output
+  unusedModules: string[];
+  // Rules from the project's `.bibimbob.json`, if it has one
+  rules?: DependencyRules;
+  checks: CheckKind[];
+  // Patterns of modules that may be unused (e.g. entry points), in the rules file's glob syntax
+  ignoreUnused: string[];
+  projectRoot: string;
+  // Read a source file, or undefined if it cannot be read
+  readSource: (filePath: string) => string | undefined;
+}
+
+const FINDING_DESCRIPTIONS: Record<FindingRuleId, string> = {
+  'unused-module': 'Module has no dependents',
+  'dependency-cycle': 'Module is part of a dependency cycle',
+  'dependency-rule': 'Dependency breaks a rule of the .bibimbob.json file'
+};
+
+function toFindingLevel(severity: RuleSeverity): FindingLevel {
+  return severity === 'error' || severity === 'warning' ? severity : 'note';
+}
+
+// Run the selected checks over a project's graph
+export function collectFindings(input: CheckInput): CheckFinding[] {
+  const { graph } = input;
+  const locate = (moduleName: string, dependency?: string): Pick<CheckFinding, 'filePath' | 'line' | 'column'> => {
+    const filePath = graph.modules.get(moduleName)?.path ?? undefined;
+    if (!filePath) {
+      return {};
+    }
+    const text = dependency ? input.readSource(filePath) : undefined;
+    const reference = text !== undefined ? findModuleReference(text, dependency!) : undefined;
+    return reference ? { filePath, line: reference.line + 1, column: reference.character + 1 } : { filePath };
+  };
+
+  const findings: CheckFinding[] = [];
+  if (input.checks.includes('rules') && input.rules) {
+    for (const violation of evaluateRules(graph, input.rules)) {
+      findings.push({
+        ruleId: 'dependency-rule',
+        level: toFindingLevel(violation.rule.severity),
+        module: violation.edge.from,
+        message: describeViolation(violation),
+        ...locate(violation.edge.from, violation.edge.to)
+      });
+    }
+  }
+  if (input.checks.includes('cycles')) {
+    for (const cycle of findCycles(graph)) {
+      for (const name of cycle.members) {
+        const { next, message } = describeCycleMember(graph, cycle, name);
+        findings.push({ ruleId: 'dependency-cycle', level: 'warning', module: name, message, ...locate(name, next) });
+      }
+    }
+  }
+  if (input.checks.includes('unused')) {
+    const isIgnored = createModuleMatcher(graph, input.projectRoot);
+    for (const name of [...input.unusedModules].sort()) {
+      if (!isIgnored(name, input.ignoreUnused)) {
+        findings.push({ ruleId: 'unused-module', level: 'warning', module: name, message: `Module ${name} has no dependents`, ...locate(name) });
+      }
+    }
+  }
+  return findings;
+}
+
+export function countFindings(results: ProjectCheckResult[]): Record<FindingLevel, number> {
+  const counts: Record<FindingLevel, number> = { error: 0, warning: 0, note: 0 };
+  for (const finding of results.flatMap(result => result.findings)) {
+    counts[finding.level]++;
+  }
+  return counts;
+}
+
+// Whether the check should fail: notes (rules with `information` or `hint` severity) do not count
+export function hasProblems(results: ProjectCheckResult[]): boolean {
+  const counts = countFindings(results);
+  return counts.error + counts.warning > 0;
+}
+
+function formatLocation(finding: CheckFinding, cwd: string): string {
+  if (!finding.filePath) {
+    return finding.module;
+  }
+  const relativePath = path.relative(cwd, finding.filePath);
+  return finding.line !== undefined ? `${relativePath}:${finding.line}:${finding.column}` : relativePath;
+}
+
+function pluralize(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+// Human-readable report, grouped by project
+export function formatText(results: ProjectCheckResult[], cwd: string): string {
+  const lines: string[] = [];
+  for (const result of results) {
+    if (result.findings.length === 0) {
+      continue;
+    }
+    lines.push(`${result.projectName} (${path.relative(cwd, result.projectRoot) || '.'})`);
+    for (const finding of result.findings) {
+      lines.push(`  ${formatLocation(finding, cwd)}  ${finding.level.padEnd(7)}  ${finding.message}  [${finding.ruleId}]`);
+    }
+    lines.push('');
+  }
+  const counts = countFindings(results);
+  const total = counts.error + counts.warning + counts.note;
+  lines.push(total === 0
+    ? 'No problems found.'
+    : `${pluralize(total, 'problem')} (${pluralize(counts.error, 'error')}, ${pluralize(counts.warning, 'warning')}, ${pluralize(counts.note, 'note')})`);
+  return lines.join('\n') + '\n';
+}
+
+export function formatJson(results: ProjectCheckResult[]): string {
+  return JSON.stringify({ projects: results, summary: countFindings(results) }, null, 2) + '\n';
+}
+
+// SARIF 2.1.0 log, for code scanning tools; file locations are relative to `cwd` when inside it
+export function formatSarif(results: ProjectCheckResult[], cwd: string): string {
+  const toUri = (filePath: string) => {
+    const relativePath = path.relative(cwd, filePath);
+    return relativePath.startsWith('..') || path.isAbsolute(relativePath)
+      ? pathToFileURL(filePath).href
+      : relativePath.split(path.sep).join('/');
+  };
+  const sarif = {
+    version: '2.1.0',
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'bibimbob-check',
+          informationUri: 'https://github.com/mununki/rescriptdep',
+          rules: (Object.keys(FINDING_DESCRIPTIONS) as FindingRuleId[]).map(id => ({
+            id,
+            shortDescription: { text: FINDING_DESCRIPTIONS[id] }
+          }))
+        }
+      },
+      results: results.flatMap(result => result.findings.map(finding => ({
+        ruleId: finding.ruleId,
+        level: finding.level,
+        message: { text: finding.message },
+        locations: [finding.filePath ? {
+          physicalLocation: {
+            artifactLocation: { uri: toUri(finding.filePath) },
+            ...(finding.line !== undefined ? { region: { startLine: finding.line, startColumn: finding.column } } : {})
+          }
+        } : {
+          logicalLocations: [{ name: finding.module, kind: 'module' }]
+        }]
+      })))
+    }]
+  };
+  return JSON.stringify(sarif, null, 2) + '\n';
+}
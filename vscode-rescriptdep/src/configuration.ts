@@ -0,0 +1,69 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { DEFAULT_TEST_MODULE_PATTERNS } from './changeImpact';
+
+export const CONFIGURATION_SECTION = 'bibimbob';
+
+// Typed view of the `bibimbob.*` settings.
+// Settings are read on every access, so changes apply without reloading the window.
+export interface BibimbobConfiguration {
+  // rescriptdep binary to use instead of the bundled one (empty: bundled CLI, then PATH)
+  cliPath: string;
+  // Time limit for a single CLI run
+  timeoutMs: number;
+  // Maximum size of the CLI output
+  maxBufferMB: number;
+  // Build output directory relative to the project root
+  buildDir: string;
+  // `nice` increment for CLI runs on macOS/Linux (0 runs the CLI without `nice`)
+  niceLevel: number;
+  // Maximum number of paths drawn when showing all paths between two modules
+  maxPaths: number;
+  // Severity of the diagnostics reported by "Find Unused Values"
+  unusedValueSeverity: vscode.DiagnosticSeverity;
+  // Show the references CodeLens above top-level let bindings
+  valueUsageCodeLens: boolean;
+  // Shell command that runs the affected tests, with `${files}` and `${modules}` placeholders (empty: not set up)
+  testCommand: string;
+  // Globs over module names (or project-relative paths) that identify test modules
+  testModulePatterns: string[];
+}
+
+export function toDiagnosticSeverity(severity: string): vscode.DiagnosticSeverity {
+  switch (severity) {
+    case 'error':
+      return vscode.DiagnosticSeverity.Error;
+    case 'information':
+      return vscode.DiagnosticSeverity.Information;
+    case 'hint':
+      return vscode.DiagnosticSeverity.Hint;
+    default:
+      return vscode.DiagnosticSeverity.Warning;
+  }
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+export function getConfiguration(): BibimbobConfiguration {
+  const config = vscode.workspace.getConfiguration(CONFIGURATION_SECTION);
+  return {
+    cliPath: config.get<string>('cliPath', '').trim(),
+    timeoutMs: Math.max(config.get<number>('timeoutMs', 10000), 1000),
+    maxBufferMB: Math.max(config.get<number>('maxBufferMB', 10), 1),
+    buildDir: config.get<string>('buildDir', 'lib/bs').trim() || 'lib/bs',
+    niceLevel: clamp(Math.round(config.get<number>('niceLevel', 10)), 0, 19),
+    maxPaths: Math.max(Math.round(config.get<number>('maxPaths', 10)), 1),
+    unusedValueSeverity: toDiagnosticSeverity(config.get<string>('unusedValueSeverity', 'warning')),
+    valueUsageCodeLens: config.get<boolean>('valueUsageCodeLens', true),
+    testCommand: config.get<string>('testCommand', '').trim(),
+    testModulePatterns: config.get<string[]>('testModulePatterns', DEFAULT_TEST_MODULE_PATTERNS)
+      .filter(pattern => typeof pattern === 'string' && pattern.trim().length > 0)
+  };
+}
+
+// Absolute build output directory of a project, as passed to the CLI
+export function getBuildDir(projectRoot: string): string {
+  return path.resolve(projectRoot, getConfiguration().buildDir);
+}
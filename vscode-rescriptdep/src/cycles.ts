@@ -0,0 +1,133 @@
+// Describe the dependency cycles of a graph: the strongly connected components that the
+// DOT output draws as "Cyclic dependency" clusters, with one loop and the edges closing it.
+
+import { DependencyEdge, DependencyGraph, createSubgraph, findShortestPath, findStronglyConnectedComponents } from './dependencyGraph';
+
+export interface DependencyCycle {
+  // Modules of the strongly connected component, sorted
+  members: string[];
+  // One loop through the first member, starting and ending with it (e.g. A, B, C, A)
+  loop: string[];
+  // Edges that close a loop: removing them leaves the component without cycles
+  closingEdges: DependencyEdge[];
+}
+
+// Shortest loop from a module back to itself within its component
+function findLoop(component: DependencyGraph, start: string): string[] {
+  let loop: string[] | undefined;
+  for (const dep of [...component.modules.get(start)!.dependencies].sort()) {
+    const back = findShortestPath(component, dep, start);
+    if (back && (!loop || back.length + 1 < loop.length)) {
+      loop = [start, ...back];
+    }
+  }
+  return loop ?? [start, start];
+}
+
+// Back edges of a depth-first search over the component, starting at its first member
+function findClosingEdges(component: DependencyGraph, start: string): DependencyEdge[] {
+  const closingEdges: DependencyEdge[] = [];
+  const visited = new Set<string>();
+  const onPath = new Set<string>();
+  const visit = (name: string) => {
+    visited.add(name);
+    onPath.add(name);
+    for (const dep of [...component.modules.get(name)!.dependencies].sort()) {
+      if (onPath.has(dep)) {
+        closingEdges.push({ from: name, to: dep });
+      } else if (!visited.has(dep)) {
+        visit(dep);
+      }
+    }
+    onPath.delete(name);
+  };
+  visit(start);
+  return closingEdges;
+}
+
+// Cycles of a graph, in the order of findStronglyConnectedComponents
+// (the N of the `cluster_N` subgraphs in the generated DOT)
+export function findCycles(graph: DependencyGraph): DependencyCycle[] {
+  return findStronglyConnectedComponents(graph).map(members => {
+    const component = createSubgraph(graph, members);
+    return {
+      members,
+      loop: findLoop(component, members[0]),
+      closingEdges: findClosingEdges(component, members[0])
+    };
+  });
+}
+
+// The module a cycle member depends on next within its cycle, and a description of the cycle for that member
+export function describeCycleMember(
+  graph: DependencyGraph,
+  cycle: DependencyCycle,
+  name: string
+): { next: string | undefined; message: string } {
+  const loopIndex = cycle.loop.indexOf(name);
+  if (loopIndex >= 0) {
+    return {
+      next: cycle.loop[loopIndex + 1],
+      message: `Module ${name} is part of a dependency cycle: ${cycle.loop.join(' → ')}`
+    };
+  }
+  return {
+    next: graph.modules.get(name)?.dependencies.find(dep => cycle.members.includes(dep)),
+    message: `Module ${name} is part of a dependency cycle with ${cycle.members.filter(member => member !== name).join(', ')}`
+  };
+}
+
+// Create a graph of only the modules that are part of a cycle
+export function createCycleGraph(graph: DependencyGraph): DependencyGraph {
+  return createSubgraph(graph, findStronglyConnectedComponents(graph).flat());
+}
+
+export interface ModuleReference {
+  // 0-based position of the module name
+  line: number;
+  character: number;
+  length: number;
+}
+
+// Find where a source file first refers to a module (e.g. `open Logger` or `Logger.log`).
+// Namespaced names such as `Logger-App` are looked up without their namespace suffix.
+export function findModuleReference(text: string, moduleName: string): ModuleReference | undefined {
+  const name = moduleName.split('-')[0];
+  const pattern = new RegExp(`(^|[^A-Za-z0-9_'.])${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?![A-Za-z0-9_'])`);
+  const lines = text.split(/\r?\n/);
+  for (let line = 0; line < lines.length; line++) {
+    const lineText = lines[line];
+    if (lineText.trimStart().startsWith('//')) {
+      continue;
+    }
+    const match = pattern.exec(lineText);
+    if (match) {
+      return { line, character: match.index + match[1].length, length: name.length };
+    }
+  }
+  return undefined;
+}
+
+// Find the module named at a position of a line: the first segment of a qualified reference such as
+// `Utils.formatDate`, or the module of `open Logger` / `include Logger`. Later segments of a path
+// (`Foo.Bar.baz`) name submodules and are not matched. Returns the name and where it starts.
+export function findModuleNameAt(lineText: string, character: number): { name: string; character: number } | undefined {
+  const pattern = /[A-Z][A-Za-z0-9_']*/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(lineText)) !== null) {
+    const start = match.index;
+    const end = start + match[0].length;
+    if (character < start || character >= end) {
+      continue;
+    }
+    const before = lineText.slice(0, start);
+    // Part of a longer identifier, a submodule, or inside a line comment
+    if (/[A-Za-z0-9_'.]$/.test(before) || before.includes('//')) {
+      return undefined;
+    }
+    const isQualified = lineText[end] === '.';
+    const isOpened = /(^|[^A-Za-z0-9_'])(open|include)!?\s+$/.test(before);
+    return isQualified || isOpened ? { name: match[0], character: start } : undefined;
+  }
+  return undefined;
+}
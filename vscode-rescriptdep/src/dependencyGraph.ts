@@ -0,0 +1,385 @@
+// Typed model of the dependency graph produced by `rescriptdep --format=json`.
+// This module has no dependency on the VS Code API so it can be shared by
+// every view that needs graph data.
+
+export interface ModuleNode {
+  name: string;
+  // Source file path reported by the CLI, if it could be resolved
+  path: string | null;
+  // Modules this module depends on
+  dependencies: string[];
+  // Modules that depend on this module
+  dependents: string[];
+  // Whether the module is part of a strongly connected component
+  inCycle: boolean;
+  // True for modules that only appear as a dependency (e.g. from node_modules)
+  external: boolean;
+}
+
+export interface DependencyGraph {
+  modules: Map<string, ModuleNode>;
+  // Cycles reported by the CLI, each one as a list of module names
+  cycles: string[][];
+}
+
+export interface DependencyEdge {
+  from: string;
+  to: string;
+}
+
+// Shape of a module entry in the CLI's JSON output
+export interface CliModuleReference {
+  name: string;
+  path?: string | null;
+}
+
+export interface CliModule extends CliModuleReference {
+  dependencies?: CliModuleReference[];
+  dependents?: CliModuleReference[];
+  fan_in?: number;
+  fan_out?: number;
+  in_cycle?: boolean;
+}
+
+export interface CliGraphOutput {
+  modules?: CliModule[];
+  cycles?: string[][];
+}
+
+function createNode(name: string, nodePath: string | null, external: boolean): ModuleNode {
+  return { name, path: nodePath, dependencies: [], dependents: [], inCycle: false, external };
+}
+
+// Rebuild every module's dependents list from the dependency edges
+export function linkDependents(modules: Map<string, ModuleNode>) {
+  for (const node of modules.values()) {
+    node.dependents = [];
+  }
+  for (const node of modules.values()) {
+    for (const dep of node.dependencies) {
+      modules.get(dep)?.dependents.push(node.name);
+    }
+  }
+  for (const node of modules.values()) {
+    node.dependents.sort();
+  }
+}
+
+// Parse the CLI's JSON output into a DependencyGraph.
+// Accepts both the full graph object and the plain module name list printed with `--no-dependents`.
+export function parseDependencyGraph(output: string): DependencyGraph {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(output);
+  } catch (error) {
+    throw new Error(`Could not parse rescriptdep JSON output: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const modules = new Map<string, ModuleNode>();
+
+  // `--no-dependents` prints only the module names
+  if (Array.isArray(parsed)) {
+    for (const name of parsed) {
+      if (typeof name === 'string') {
+        modules.set(name, createNode(name, null, false));
+      }
+    }
+    return { modules, cycles: [] };
+  }
+
+  if (!parsed || typeof parsed !== 'object' || !Array.isArray((parsed as CliGraphOutput).modules)) {
+    throw new Error('Unexpected rescriptdep JSON output: missing "modules" list');
+  }
+
+  const graphOutput = parsed as CliGraphOutput;
+
+  for (const cliModule of graphOutput.modules!) {
+    const node = createNode(cliModule.name, cliModule.path ?? null, false);
+    node.inCycle = cliModule.in_cycle === true;
+    node.dependencies = (cliModule.dependencies ?? []).map(dep => dep.name);
+    modules.set(node.name, node);
+  }
+
+  // Dependencies that are not analyzed modules themselves still become nodes, like in the CLI's DOT output
+  for (const cliModule of graphOutput.modules!) {
+    for (const dep of cliModule.dependencies ?? []) {
+      if (!modules.has(dep.name)) {
+        modules.set(dep.name, createNode(dep.name, dep.path ?? null, true));
+      }
+    }
+  }
+
+  linkDependents(modules);
+
+  const cycles = Array.isArray(graphOutput.cycles)
+    ? graphOutput.cycles.filter(cycle => Array.isArray(cycle) && cycle.length > 0)
+    : [];
+
+  return { modules, cycles };
+}
+
+// Convert a DependencyGraph back into the CLI's JSON shape, so exported graphs can be parsed again.
+// External modules only appear as dependencies, like in the CLI output.
+export function serializeDependencyGraph(graph: DependencyGraph): CliGraphOutput {
+  const reference = (name: string): CliModuleReference => ({ name, path: graph.modules.get(name)?.path ?? null });
+
+  const modules = getModuleNames(graph)
+    .map(name => graph.modules.get(name)!)
+    .filter(node => !node.external)
+    .map(node => ({
+      name: node.name,
+      path: node.path,
+      dependencies: [...node.dependencies].sort().map(reference),
+      dependents: node.dependents.map(reference),
+      fan_in: node.dependents.length,
+      fan_out: node.dependencies.length,
+      in_cycle: node.inCycle
+    }));
+
+  return { modules, cycles: graph.cycles };
+}
+
+// Module names in alphabetical order
+export function getModuleNames(graph: DependencyGraph): string[] {
+  return Array.from(graph.modules.keys()).sort();
+}
+
+// All dependency edges, sorted by source and then target
+export function getEdges(graph: DependencyGraph): DependencyEdge[] {
+  const edges: DependencyEdge[] = [];
+  for (const name of getModuleNames(graph)) {
+    const node = graph.modules.get(name)!;
+    for (const dep of [...node.dependencies].sort()) {
+      if (graph.modules.has(dep)) {
+        edges.push({ from: name, to: dep });
+      }
+    }
+  }
+  return edges;
+}
+
+// Create a graph that keeps only the given modules and the edges between them
+export function createSubgraph(graph: DependencyGraph, moduleNames: Iterable<string>): DependencyGraph {
+  const keep = new Set(moduleNames);
+  const modules = new Map<string, ModuleNode>();
+
+  for (const name of keep) {
+    const node = graph.modules.get(name);
+    if (node) {
+      modules.set(name, {
+        ...node,
+        dependencies: node.dependencies.filter(dep => keep.has(dep)),
+        dependents: []
+      });
+    }
+  }
+
+  linkDependents(modules);
+
+  const cycles = graph.cycles.filter(cycle => cycle.every(name => modules.has(name)));
+  return { modules, cycles };
+}
+
+// Find strongly connected components with more than one module (Tarjan's algorithm).
+// Mirrors the "Cyclic dependency" clusters in the CLI's DOT output.
+export function findStronglyConnectedComponents(graph: DependencyGraph): string[][] {
+  let index = 0;
+  const indices = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+
+  const strongConnect = (name: string) => {
+    indices.set(name, index);
+    lowLinks.set(name, index);
+    index++;
+    stack.push(name);
+    onStack.add(name);
+
+    for (const dep of graph.modules.get(name)?.dependencies ?? []) {
+      if (!graph.modules.has(dep)) {
+        continue;
+      }
+      if (!indices.has(dep)) {
+        strongConnect(dep);
+        lowLinks.set(name, Math.min(lowLinks.get(name)!, lowLinks.get(dep)!));
+      } else if (onStack.has(dep)) {
+        lowLinks.set(name, Math.min(lowLinks.get(name)!, indices.get(dep)!));
+      }
+    }
+
+    if (lowLinks.get(name) === indices.get(name)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== name);
+
+      if (component.length > 1) {
+        components.push(component.sort());
+      }
+    }
+  };
+
+  for (const name of getModuleNames(graph)) {
+    if (!indices.has(name)) {
+      strongConnect(name);
+    }
+  }
+
+  return components;
+}
+
+// Which side of the center module a focused graph follows
+export type FocusDirection = 'dependencies' | 'dependents' | 'both';
+
+export interface FocusOptions {
+  // Number of levels to follow from the center module, or 'all' for every transitive level
+  depth: number | 'all';
+  direction: FocusDirection;
+}
+
+// Direct dependencies and dependents, like the CLI's `--module` output
+export const DEFAULT_FOCUS_OPTIONS: FocusOptions = { depth: 1, direction: 'both' };
+
+export function isDefaultFocus(options: FocusOptions): boolean {
+  return options.depth === DEFAULT_FOCUS_OPTIONS.depth && options.direction === DEFAULT_FOCUS_OPTIONS.direction;
+}
+
+// Modules reachable from `start` within `depth` steps along dependency or dependent edges (breadth-first)
+export function collectReachableModules(
+  graph: DependencyGraph,
+  start: string,
+  side: 'dependencies' | 'dependents',
+  depth: number | 'all' = 'all'
+): Set<string> {
+  const reached = new Set<string>();
+  let frontier = [start];
+  for (let level = 0; frontier.length > 0 && (depth === 'all' || level < depth); level++) {
+    const next: string[] = [];
+    for (const name of frontier) {
+      for (const neighbor of graph.modules.get(name)?.[side] ?? []) {
+        if (neighbor !== start && !reached.has(neighbor) && graph.modules.has(neighbor)) {
+          reached.add(neighbor);
+          next.push(neighbor);
+        }
+      }
+    }
+    frontier = next;
+  }
+  return reached;
+}
+
+// Create the graph around a center module, following its dependencies and/or dependents
+// up to the given depth. Returns an empty graph if the module is unknown.
+export function createFocusedGraph(graph: DependencyGraph, centerModuleName: string, options: FocusOptions): DependencyGraph {
+  if (!graph.modules.has(centerModuleName)) {
+    return { modules: new Map(), cycles: [] };
+  }
+  const keep = new Set([centerModuleName]);
+  if (options.direction !== 'dependents') {
+    collectReachableModules(graph, centerModuleName, 'dependencies', options.depth).forEach(name => keep.add(name));
+  }
+  if (options.direction !== 'dependencies') {
+    collectReachableModules(graph, centerModuleName, 'dependents', options.depth).forEach(name => keep.add(name));
+  }
+  return createSubgraph(graph, keep);
+}
+
+// Shortest dependency path from one module to another (breadth-first), or undefined if there is none
+export function findShortestPath(graph: DependencyGraph, from: string, to: string): string[] | undefined {
+  if (!graph.modules.has(from) || !graph.modules.has(to)) {
+    return undefined;
+  }
+  const previous = new Map<string, string | null>([[from, null]]);
+  let frontier = [from];
+  while (frontier.length > 0 && !previous.has(to)) {
+    const next: string[] = [];
+    for (const name of frontier) {
+      for (const dep of [...graph.modules.get(name)!.dependencies].sort()) {
+        if (graph.modules.has(dep) && !previous.has(dep)) {
+          previous.set(dep, name);
+          next.push(dep);
+        }
+      }
+    }
+    frontier = next;
+  }
+  if (!previous.has(to)) {
+    return undefined;
+  }
+  const path: string[] = [];
+  for (let name: string | null = to; name !== null; name = previous.get(name)!) {
+    path.unshift(name);
+  }
+  return path;
+}
+
+// Simple dependency paths (no module visited twice) from one module to another, at most `limit` of them.
+// Always includes the shortest path; the result is ordered by length.
+export function findSimplePaths(graph: DependencyGraph, from: string, to: string, limit: number): string[][] {
+  const shortest = findShortestPath(graph, from, to);
+  if (!shortest || limit < 1) {
+    return [];
+  }
+
+  // Only modules that can still reach the target are worth visiting
+  const canReachTarget = collectReachableModules(graph, to, 'dependents');
+  canReachTarget.add(to);
+
+  const paths: string[][] = [];
+  const current = [from];
+  const visited = new Set([from]);
+  const visit = (name: string) => {
+    for (const dep of [...graph.modules.get(name)!.dependencies].sort()) {
+      if (paths.length >= limit) {
+        return;
+      }
+      if (visited.has(dep) || !canReachTarget.has(dep)) {
+        continue;
+      }
+      current.push(dep);
+      if (dep === to) {
+        paths.push([...current]);
+      } else {
+        visited.add(dep);
+        visit(dep);
+        visited.delete(dep);
+      }
+      current.pop();
+    }
+  };
+  visit(from);
+
+  const key = (path: string[]) => path.join('\n');
+  if (!paths.some(path => key(path) === key(shortest))) {
+    paths.sort((a, b) => a.length - b.length);
+    paths.splice(limit - 1, paths.length, shortest);
+  }
+  return paths.sort((a, b) => a.length - b.length || key(a).localeCompare(key(b)));
+}
+
+// Create a graph that keeps only the modules and edges of the given paths
+export function createPathGraph(graph: DependencyGraph, paths: string[][]): DependencyGraph {
+  const modules = new Map<string, ModuleNode>();
+  for (const path of paths) {
+    path.forEach((name, i) => {
+      if (!modules.has(name)) {
+        modules.set(name, { ...graph.modules.get(name)!, dependencies: [], dependents: [] });
+      }
+      const next = path[i + 1];
+      const node = modules.get(name)!;
+      if (next !== undefined && !node.dependencies.includes(next)) {
+        node.dependencies.push(next);
+      }
+    });
+  }
+
+  linkDependents(modules);
+
+  const cycles = graph.cycles.filter(cycle => cycle.every(name => modules.has(name)));
+  return { modules, cycles };
+}
@@ -0,0 +1,216 @@
+// Architecture rules from a `.bibimbob.json` file, such as "modules matching `Ui*` must not
+// depend on modules matching `Db*`", checked against the edges of a dependency graph.
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { DependencyEdge, DependencyGraph, getEdges } from './dependencyGraph';
+
+export const RULES_FILE_NAME = '.bibimbob.json';
+
+export type RuleSeverity = 'error' | 'warning' | 'information' | 'hint';
+
+const RULE_SEVERITIES: RuleSeverity[] = ['error', 'warning', 'information', 'hint'];
+
+// Patterns are globs (`*`, `**`, `?`, `{a,b}`). A pattern containing `/` is matched against the
+// module's source path relative to the rules file; any other pattern against the module name.
+export interface DependencyRule {
+  // Modules the rule applies to
+  from: string[];
+  // Dependencies the matching modules must not have
+  deny: string[];
+  // If set, the only dependencies the matching modules may have
+  allow?: string[];
+  // Shown in place of the generated description
+  message?: string;
+  severity: RuleSeverity;
+}
+
+export interface DependencyRules {
+  // Directory of the rules file, which path patterns are relative to
+  root: string;
+  rules: DependencyRule[];
+}
+
+export interface RuleViolation {
+  edge: DependencyEdge;
+  rule: DependencyRule;
+  // Position of the rule in the rules file
+  ruleIndex: number;
+  // Whether the dependency matches a `deny` pattern or is missing from the `allow` list
+  kind: 'denied' | 'notAllowed';
+}
+
+// Convert a glob pattern into an anchored regular expression
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  let braceDepth = 0;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      // `**/` also matches no directory at all
+      if (pattern[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i++;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      source += '(?:';
+      braceDepth++;
+    } else if (char === '}' && braceDepth > 0) {
+      source += ')';
+      braceDepth--;
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  if (braceDepth > 0) {
+    throw new Error(`Unclosed "{" in pattern "${pattern}"`);
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function parsePatterns(value: unknown, field: string, ruleNumber: number): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const patterns = typeof value === 'string' ? [value] : value;
+  if (!Array.isArray(patterns) || patterns.some(pattern => typeof pattern !== 'string' || pattern.length === 0)) {
+    throw new Error(`Rule ${ruleNumber}: "${field}" must be a glob pattern or a list of glob patterns`);
+  }
+  for (const pattern of patterns) {
+    try {
+      globToRegExp(pattern);
+    } catch (error) {
+      throw new Error(`Rule ${ruleNumber}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  return patterns;
+}
+
+// Parse the contents of a rules file. Throws an error describing the first problem found.
+export function parseRulesFile(text: string): DependencyRule[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Could not parse ${RULES_FILE_NAME}: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!parsed || typeof parsed !== 'object' || !Array.isArray((parsed as { rules?: unknown }).rules)) {
+    throw new Error(`${RULES_FILE_NAME} must contain a "rules" list`);
+  }
+
+  return ((parsed as { rules: unknown[] }).rules).map((entry, index) => {
+    const ruleNumber = index + 1;
+    if (!entry || typeof entry !== 'object') {
+      throw new Error(`Rule ${ruleNumber}: expected an object`);
+    }
+    const rule = entry as Record<string, unknown>;
+    const from = parsePatterns(rule.from, 'from', ruleNumber);
+    if (!from || from.length === 0) {
+      throw new Error(`Rule ${ruleNumber}: "from" is required`);
+    }
+    const deny = parsePatterns(rule.deny, 'deny', ruleNumber);
+    const allow = parsePatterns(rule.allow, 'allow', ruleNumber);
+    if (!deny && !allow) {
+      throw new Error(`Rule ${ruleNumber}: "deny" or "allow" is required`);
+    }
+    if (rule.message !== undefined && typeof rule.message !== 'string') {
+      throw new Error(`Rule ${ruleNumber}: "message" must be a string`);
+    }
+    const severity = rule.severity ?? 'error';
+    if (!RULE_SEVERITIES.includes(severity as RuleSeverity)) {
+      throw new Error(`Rule ${ruleNumber}: "severity" must be one of ${RULE_SEVERITIES.join(', ')}`);
+    }
+    return {
+      from,
+      deny: deny ?? [],
+      allow,
+      message: rule.message as string | undefined,
+      severity: severity as RuleSeverity
+    };
+  });
+}
+
+// Find the rules file of a project: in the project root or the closest parent directory,
+// stopping at `stopDir` (e.g. the workspace folder) if given
+export function findRulesFile(projectRoot: string, stopDir?: string): string | undefined {
+  let dir = path.resolve(projectRoot);
+  const stop = stopDir ? path.resolve(stopDir) : undefined;
+  for (;;) {
+    const candidate = path.join(dir, RULES_FILE_NAME);
+    if (fs.existsSync(candidate)) {
+      return candidate;
+    }
+    const parent = path.dirname(dir);
+    if (dir === stop || parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+// Load the rules that apply to a project, or undefined if it has no rules file
+export function loadRules(projectRoot: string, stopDir?: string): DependencyRules | undefined {
+  const rulesFile = findRulesFile(projectRoot, stopDir);
+  if (!rulesFile) {
+    return undefined;
+  }
+  return { root: path.dirname(rulesFile), rules: parseRulesFile(fs.readFileSync(rulesFile, 'utf8')) };
+}
+
+// Create a function that tells whether a module of the graph matches any of a list of patterns,
+// with path patterns relative to `root`
+export function createModuleMatcher(graph: DependencyGraph, root: string): (moduleName: string, list: string[]) => boolean {
+  const patterns = new Map<string, RegExp>();
+  const matches = (moduleName: string, pattern: string): boolean => {
+    let regExp = patterns.get(pattern);
+    if (!regExp) {
+      regExp = globToRegExp(pattern);
+      patterns.set(pattern, regExp);
+    }
+    if (!pattern.includes('/')) {
+      // Namespaced modules also match by their name without the namespace suffix
+      return regExp.test(moduleName) || regExp.test(moduleName.split('-')[0]);
+    }
+    const modulePath = graph.modules.get(moduleName)?.path;
+    return !!modulePath && regExp.test(path.relative(root, modulePath).split(path.sep).join('/'));
+  };
+  return (moduleName, list) => list.some(pattern => matches(moduleName, pattern));
+}
+
+// Check every dependency of the graph against the rules; an edge breaking several rules
+// is reported once per rule
+export function evaluateRules(graph: DependencyGraph, rules: DependencyRules): RuleViolation[] {
+  const matchesAny = createModuleMatcher(graph, rules.root);
+  const violations: RuleViolation[] = [];
+  for (const edge of getEdges(graph)) {
+    rules.rules.forEach((rule, ruleIndex) => {
+      if (!matchesAny(edge.from, rule.from)) {
+        return;
+      }
+      if (matchesAny(edge.to, rule.deny)) {
+        violations.push({ edge, rule, ruleIndex, kind: 'denied' });
+      } else if (rule.allow !== undefined && !matchesAny(edge.to, rule.allow)) {
+        violations.push({ edge, rule, ruleIndex, kind: 'notAllowed' });
+      }
+    });
+  }
+  return violations;
+}
+
+export function describeViolation(violation: RuleViolation): string {
+  const { edge, rule } = violation;
+  const reason = rule.message ?? (violation.kind === 'denied'
+    ? `${rule.from.join(', ')} must not depend on ${rule.deny.join(', ')}`
+    : `${rule.from.join(', ')} may only depend on ${rule.allow!.join(', ')}`);
+  return `${edge.from} must not depend on ${edge.to}: ${reason}`;
+}
@@ -0,0 +1,127 @@
+import * as vscode from 'vscode';
+import { DependencyGraph, getModuleNames } from './dependencyGraph';
+
+export const DEPENDENCY_EXPLORER_VIEW = 'bibimbob.dependencyExplorer';
+export const OPEN_MODULE = 'bibimbob.openModule';
+
+type RelationKind = 'dependencies' | 'dependents';
+
+// A module node; expands into its "Dependencies" and "Dependents" groups
+export class ModuleTreeItem extends vscode.TreeItem {
+  constructor(public readonly moduleName: string, modulePath: string | null, external: boolean) {
+    super(moduleName, vscode.TreeItemCollapsibleState.Collapsed);
+    this.contextValue = 'bibimbobModule';
+    this.iconPath = new vscode.ThemeIcon('symbol-module');
+    this.description = external ? 'external' : undefined;
+    this.tooltip = modulePath ?? moduleName;
+    this.command = {
+      command: OPEN_MODULE,
+      title: 'Open Module',
+      arguments: [moduleName, modulePath]
+    };
+  }
+}
+
+// A "Dependencies" or "Dependents" group under a module
+export class RelationTreeItem extends vscode.TreeItem {
+  constructor(public readonly moduleName: string, public readonly kind: RelationKind, count: number) {
+    super(
+      kind === 'dependencies' ? 'Dependencies' : 'Dependents',
+      count > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None
+    );
+    this.contextValue = 'bibimbobRelation';
+    this.iconPath = new vscode.ThemeIcon(kind === 'dependencies' ? 'arrow-right' : 'arrow-left');
+    this.description = String(count);
+  }
+}
+
+export type DependencyTreeItem = ModuleTreeItem | RelationTreeItem;
+
+// Tree data provider for the Bibimbob sidebar: lists every module of the selected project
+export class DependencyTreeProvider implements vscode.TreeDataProvider<DependencyTreeItem> {
+  private readonly changeEmitter = new vscode.EventEmitter<DependencyTreeItem | undefined>();
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  private graph: DependencyGraph | undefined;
+  private projectRoot: string | undefined;
+
+  constructor(private readonly loadGraph: (projectRoot: string) => Promise<DependencyGraph>) { }
+
+  getProjectRoot(): string | undefined {
+    return this.projectRoot;
+  }
+
+  // Load the graph for a project and show it in the tree
+  async setProject(projectRoot: string): Promise<void> {
+    this.projectRoot = projectRoot;
+    await this.refresh();
+  }
+
+  // Re-run the CLI for the current project
+  async refresh(): Promise<void> {
+    if (!this.projectRoot) {
+      return;
+    }
+    const projectRoot = this.projectRoot;
+
+    await vscode.window.withProgress({
+      location: { viewId: DEPENDENCY_EXPLORER_VIEW },
+      title: 'Loading module dependencies...'
+    }, async () => {
+      try {
+        const graph = await this.loadGraph(projectRoot);
+        // Ignore the result if another project was selected in the meantime
+        if (this.projectRoot === projectRoot) {
+          this.graph = graph;
+        }
+      } catch (error) {
+        this.graph = undefined;
+        vscode.window.showErrorMessage(`Error loading module dependencies: ${error instanceof Error ? error.message : error}`);
+      }
+    });
+
+    this.changeEmitter.fire(undefined);
+  }
+
+  getTreeItem(element: DependencyTreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: DependencyTreeItem): DependencyTreeItem[] {
+    const graph = this.graph;
+    if (!graph) {
+      return [];
+    }
+
+    // Root: every module of the project (external modules only appear as dependencies)
+    if (!element) {
+      return getModuleNames(graph)
+        .filter(name => !graph.modules.get(name)!.external)
+        .map(name => this.createModuleItem(graph, name));
+    }
+
+    const node = graph.modules.get(element.moduleName);
+    if (!node) {
+      return [];
+    }
+
+    if (element instanceof ModuleTreeItem) {
+      return [
+        new RelationTreeItem(node.name, 'dependencies', node.dependencies.length),
+        new RelationTreeItem(node.name, 'dependents', node.dependents.length)
+      ];
+    }
+
+    const related = element.kind === 'dependencies' ? node.dependencies : node.dependents;
+    return [...related].sort().map(name => this.createModuleItem(graph, name));
+  }
+
+  private createModuleItem(graph: DependencyGraph, moduleName: string): ModuleTreeItem {
+    const node = graph.modules.get(moduleName);
+    return new ModuleTreeItem(moduleName, node?.path ?? null, node?.external ?? false);
+  }
+
+  dispose() {
+    this.changeEmitter.dispose();
+  }
+}
@@ -0,0 +1,147 @@
+// Generate Graphviz DOT source from a DependencyGraph.
+// Styling is passed in as attribute maps instead of being patched into DOT text afterwards.
+
+import {
+  DependencyEdge,
+  DependencyGraph,
+  ModuleNode,
+  findStronglyConnectedComponents,
+  getEdges,
+  getModuleNames
+} from './dependencyGraph';
+
+export type DotAttributes = Record<string, string | number | boolean | undefined>;
+
+export interface DotOptions {
+  graphAttributes?: DotAttributes;
+  // Default attributes for every node and edge
+  nodeDefaults?: DotAttributes;
+  edgeDefaults?: DotAttributes;
+  // Per-node and per-edge attributes, merged over the defaults
+  nodeAttributes?: (node: ModuleNode) => DotAttributes | undefined;
+  edgeAttributes?: (edge: DependencyEdge) => DotAttributes | undefined;
+  // Wrap strongly connected components in "Cyclic dependency" clusters (default: true)
+  showCycles?: boolean;
+  // Named groups of modules drawn as clusters, e.g. the packages of a workspace
+  clusters?: DotCluster[];
+}
+
+export interface DotCluster {
+  label: string;
+  members: string[];
+  attributes?: DotAttributes;
+}
+
+// Quote a DOT identifier or string value
+export function quoteDot(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
+
+function formatValue(value: string | number | boolean): string {
+  return typeof value === 'string' ? quoteDot(value) : String(value);
+}
+
+// Format an attribute map as a DOT attribute list body, e.g. `color="red", penwidth=1.5`
+export function formatAttributes(attributes: DotAttributes): string {
+  return Object.entries(attributes)
+    .filter((entry): entry is [string, string | number | boolean] => entry[1] !== undefined)
+    .map(([key, value]) => `${key}=${formatValue(value)}`)
+    .join(', ');
+}
+
+function attributeSuffix(attributes: DotAttributes | undefined): string {
+  const formatted = attributes ? formatAttributes(attributes) : '';
+  return formatted ? ` [${formatted}]` : '';
+}
+
+export function generateDot(graph: DependencyGraph, options: DotOptions = {}): string {
+  const lines: string[] = ['digraph dependencies {', '  rankdir=LR;'];
+
+  for (const [key, value] of Object.entries(options.graphAttributes ?? {})) {
+    if (value !== undefined) {
+      lines.push(`  ${key}=${formatValue(value)};`);
+    }
+  }
+  if (options.nodeDefaults) {
+    lines.push(`  node [${formatAttributes(options.nodeDefaults)}];`);
+  }
+  if (options.edgeDefaults) {
+    lines.push(`  edge [${formatAttributes(options.edgeDefaults)}];`);
+  }
+  lines.push('');
+
+  // Nodes with their file path as tooltip
+  for (const name of getModuleNames(graph)) {
+    const node = graph.modules.get(name)!;
+    const attributes: DotAttributes = {
+      label: name,
+      tooltip: node.path ?? undefined,
+      ...options.nodeAttributes?.(node)
+    };
+    lines.push(`  ${quoteDot(name)}${attributeSuffix(attributes)};`);
+  }
+
+  const edges = getEdges(graph);
+  if (edges.length > 0) {
+    lines.push('');
+  }
+  for (const edge of edges) {
+    lines.push(`  ${quoteDot(edge.from)} -> ${quoteDot(edge.to)}${attributeSuffix(options.edgeAttributes?.(edge))};`);
+  }
+
+  const components = options.showCycles !== false ? findStronglyConnectedComponents(graph) : [];
+  const clusters = options.clusters ?? [];
+
+  // A cycle is drawn inside the cluster that contains all of its modules, since a node can only be
+  // in one cluster. A cycle across clusters is drawn at the top level and takes its modules out of them.
+  const clusterOf = new Map<string, number>();
+  clusters.forEach((cluster, i) => cluster.members.forEach(name => clusterOf.set(name, i)));
+  const nestedComponents = clusters.map(() => [] as number[]);
+  const topLevelComponents: number[] = [];
+  components.forEach((component, i) => {
+    const clusterIndex = clusterOf.get(component[0]);
+    if (clusterIndex !== undefined && component.every(name => clusterOf.get(name) === clusterIndex)) {
+      nestedComponents[clusterIndex].push(i);
+    } else {
+      topLevelComponents.push(i);
+    }
+  });
+  const cycleMembers = new Set(components.flat());
+
+  const pushCycle = (index: number, indent: string) => {
+    lines.push(`${indent}subgraph cluster_${index} {`);
+    lines.push(`${indent}  style=filled;`);
+    lines.push(`${indent}  color=pink;`);
+    lines.push(`${indent}  label="Cyclic dependency";`);
+    for (const name of components[index]) {
+      lines.push(`${indent}  ${quoteDot(name)};`);
+    }
+    lines.push(`${indent}}`);
+  };
+
+  if (clusters.length > 0) {
+    lines.push('', '  /* Clusters */');
+    clusters.forEach((cluster, i) => {
+      lines.push(`  subgraph cluster_group_${i} {`);
+      lines.push(`    label=${quoteDot(cluster.label)};`);
+      for (const [key, value] of Object.entries(cluster.attributes ?? {})) {
+        if (value !== undefined) {
+          lines.push(`    ${key}=${formatValue(value)};`);
+        }
+      }
+      for (const name of cluster.members.filter(member => !cycleMembers.has(member) && graph.modules.has(member))) {
+        lines.push(`    ${quoteDot(name)};`);
+      }
+      nestedComponents[i].forEach(index => pushCycle(index, '    '));
+      lines.push('  }');
+    });
+  }
+
+  if (topLevelComponents.length > 0) {
+    lines.push('', '  /* Cycles */');
+    topLevelComponents.forEach(index => pushCycle(index, '  '));
+  }
+
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
@@ -1,21 +1,182 @@
 import * as vscode from 'vscode';
-import * as cp from 'child_process';
 import * as path from 'path';
 import * as fs from 'fs';
 import * as os from 'os';
+import {
+  DEFAULT_FOCUS_OPTIONS,
+  DependencyGraph,
+  FocusDirection,
+  FocusOptions,
+  createFocusedGraph,
+  createPathGraph,
+  findShortestPath,
+  findSimplePaths,
+  getModuleNames,
+  isDefaultFocus,
+  parseDependencyGraph,
+  serializeDependencyGraph
+} from './dependencyGraph';
+import { DependencyCycle, createCycleGraph, describeCycleMember, findCycles, findModuleReference } from './cycles';
+import {
+  DependencyRules,
+  RULES_FILE_NAME,
+  RuleViolation,
+  describeViolation,
+  evaluateRules,
+  findRulesFile,
+  loadRules,
+  parseRulesFile
+} from './dependencyRules';
+import { DEPENDENCY_EXPLORER_VIEW, DependencyTreeProvider, OPEN_MODULE } from './dependencyTree';
+import { LetBinding, ModuleUsage, ValueUsage, findTopLevelLetBindings, getUsingModules } from './valueBindings';
+import { SHOW_VALUE_USAGES, ValueUsageCodeLensProvider } from './valueUsageCodeLens';
+import { generateDot } from './dotGraph';
+import { CONFIGURATION_SECTION, getBuildDir, getConfiguration, toDiagnosticSeverity } from './configuration';
+import { getBundledCLIPath, isCLIOnPath, runRescriptDep } from './rescriptDep';
+import { getNonce } from './webview';
+import { inlineComputedStyles } from './svgExport';
+import { computeModuleMetrics } from './metrics';
+import { showMetricsPanel } from './metricsPanel';
+import { DependencyStatusBar, ProjectHealth, SHOW_STATUS_MENU } from './statusBar';
+import { FOCUS_MODULE_IN_GRAPH, ModuleHoverProvider } from './moduleHover';
+import {
+  ChangeImpact,
+  computeChangeImpact,
+  createImpactGraph,
+  createTestCommand,
+  findAffectedTests,
+  formatImpactReport,
+  getModuleNameForFile,
+  getTestFiles
+} from './changeImpact';
+import { WORKING_TREE_REF, listBranches, listChangedSourceFiles } from './git';
+import {
+  GraphDiff,
+  GraphSnapshot,
+  countChanges,
+  createSnapshot,
+  diffGraphs,
+  getEdgeKey,
+  loadSnapshots,
+  readSnapshotGraph,
+  saveSnapshot
+} from './graphSnapshots';
+import {
+  PackageGraph,
+  WorkspaceGraph,
+  WorkspacePackage,
+  collapseToPackages,
+  getPackageEdgeKey,
+  getPackageMembers,
+  isCrossPackageEdge,
+  mergePackageGraphs,
+  readProjectName
+} from './workspaceGraph';
 
 // Command IDs
 const SHOW_DEPENDENCY_GRAPH = 'bibimbob.showDependencyGraph';
 const FOCUS_MODULE_DEPENDENCIES = 'bibimbob.focusModuleDependencies';
 const SHOW_UNUSED_MODULES = 'bibimbob.showUnusedModules';
 const TOGGLE_VALUE_USAGE_COUNT = 'bibimbob.toggleValueUsageCount';
+const SELECT_EXPLORER_PROJECT = 'bibimbob.selectExplorerProject';
+const REFRESH_EXPLORER = 'bibimbob.refreshExplorer';
+const FIND_UNUSED_VALUES = 'bibimbob.findUnusedValues';
+const SHOW_PACKAGE_GRAPH = 'bibimbob.showPackageGraph';
+const EXPORT_GRAPH = 'bibimbob.exportGraph';
+const SHOW_PATH_BETWEEN_MODULES = 'bibimbob.showPathBetweenModules';
+const SHOW_CYCLES = 'bibimbob.showCycles';
+const CHECK_DEPENDENCY_RULES = 'bibimbob.checkDependencyRules';
+const SHOW_MODULE_METRICS = 'bibimbob.showModuleMetrics';
+const SHOW_CHANGE_IMPACT = 'bibimbob.showChangeImpact';
+const SAVE_GRAPH_SNAPSHOT = 'bibimbob.saveGraphSnapshot';
+const COMPARE_SNAPSHOTS = 'bibimbob.compareSnapshots';
+const RUN_AFFECTED_TESTS = 'bibimbob.runAffectedTests';
+const GRAPH_PANEL_VIEW_TYPE = 'bibimbobVisualizer';
+// Workspace state key of the base ref last compared in the change impact graph
+const CHANGE_IMPACT_BASE_REF_KEY = 'bibimbob.changeImpactBaseRef';
+// Pseudo project root returned by the project picker for the "Whole Workspace" item
+const WHOLE_WORKSPACE = '<whole-workspace>';
 
 // Track the current webview panel
 let currentPanel: vscode.WebviewPanel | undefined = undefined;
-// Track current DOT content and module state as global variables
+// Track current graph model and module state as global variables
+let currentGraph: DependencyGraph | undefined = undefined;
+// DOT content last sent to the webview, used when the webview (re)loads and for exports
 let currentDotContent: string = '';
-let currentIsFocusedMode: boolean = false;
-let currentCenterModule: string | undefined = undefined;
+// Depth and direction chosen in the webview for the focused graph
+let currentFocusOptions: FocusOptions = DEFAULT_FOCUS_OPTIONS;
+// Mode of the graph panel and the project or workspace it was generated from;
+// drill-down, refresh and export stay in it
+let currentView: GraphView | undefined = undefined;
+// Bumped on every redraw so an outdated automatic refresh does not overwrite a newer graph
+let graphRefreshSerial = 0;
+// Watches the panel project's build output to refresh the graph after rebuilds
+let graphBuildWatcher: vscode.Disposable | undefined = undefined;
+// Absolute build directories the watcher covers
+let graphBuildWatcherDirs: string | undefined = undefined;
+// Set while a panel revived after a reload loads, so the webview restores its saved view
+let isRestoringGraphPanel = false;
+
+// Two modules whose dependency paths are shown in the graph panel
+interface PathQuery {
+  from: string;
+  to: string;
+  // Every simple path up to `bibimbob.maxPaths` instead of only the shortest one
+  allPaths: boolean;
+}
+
+// Modules changed since a git base ref and their transitive dependents, shown in the graph panel
+interface ImpactQuery {
+  baseRef: string;
+  impact: ChangeImpact;
+}
+
+// Two graph snapshots merged into one graph; without `after` the snapshot is compared with the current build
+interface SnapshotComparison {
+  before: GraphSnapshot;
+  after?: GraphSnapshot;
+  diff: GraphDiff;
+}
+
+// What the graph panel shows. The workspace and package graphs span every workspace project;
+// the other views belong to one project.
+type GraphView =
+  | { kind: 'full' | 'unused' | 'cycles'; projectRoot: string }
+  // The dependencies and dependents of one module
+  | { kind: 'focused'; projectRoot: string; centerModule: string }
+  // The dependency paths between two modules
+  | { kind: 'path'; projectRoot: string; pathQuery: PathQuery }
+  // The modules changed since a base ref and the modules they affect
+  | { kind: 'impact'; projectRoot: string; impactQuery: ImpactQuery }
+  // The difference between a graph snapshot and a later one (or the current build)
+  | { kind: 'snapshots'; projectRoot: string; comparison: SnapshotComparison }
+  // The merged graph of every workspace project
+  | { kind: 'workspace'; workspace: WorkspaceGraph }
+  // The workspace collapsed to one node per package
+  | { kind: 'packages'; workspace: WorkspaceGraph; packageGraph: PackageGraph };
+
+// Webview state saved through vscode.setState, used to revive the panel after a reload
+interface GraphPanelState {
+  projectRoot?: string;
+  // Every project of a "Whole Workspace" or package graph
+  projectRoots?: string[];
+  isPackageMode?: boolean;
+  isFocusedMode?: boolean;
+  centerModule?: string;
+  focusDepth?: number | 'all';
+  focusDirection?: FocusDirection;
+  isUnusedModulesMode?: boolean;
+  pathQuery?: PathQuery;
+  isCyclesMode?: boolean;
+  impactBaseRef?: string;
+  snapshotComparison?: { beforeId: string; afterId?: string };
+  viewBox?: { x: number; y: number; width: number; height: number };
+  zoom?: number;
+  searchText?: string;
+}
+// Pending SVG/PNG export requests answered by the webview
+let exportRequestSerial = 0;
+const pendingExportRequests = new Map<number, { resolve: (data: string) => void; reject: (error: Error) => void }>();
 // Track toggle state for value usage count display
 let isValueUsageCountEnabled: boolean = true;
 // Store the current usage count decoration
@@ -26,7 +187,21 @@ let usageCountRequestSerial = 0;
 
 const VALUE_USAGE_DEBOUNCE_MS = 350;
 const VALUE_USAGE_CACHE_TTL_MS = 30000;
-const usageCountCache = new Map<string, { count: string; timestamp: number }>();
+const BUILD_OUTPUT_DEBOUNCE_MS = 500;
+const EXPORT_TIMEOUT_MS = 30000;
+const usageCountCache = new Map<string, { usage: ValueUsage; timestamp: number }>();
+// Full graph of each project, shared by the cycle warnings, the dependency rule checks, the status bar
+// and the module hovers; cleared after builds. Failed loads (an unbuilt project, a CLI error or timeout)
+// stay cached until then too, so hovering such a project does not run the CLI again and again.
+const projectGraphCache = new Map<string, Promise<DependencyGraph>>();
+// Diagnostics for values reported as unused by the "Find Unused Values" command
+let unusedValueDiagnostics: vscode.DiagnosticCollection | undefined = undefined;
+// Diagnostics for modules that are part of a dependency cycle ("Show Dependency Cycles")
+let cycleDiagnostics: vscode.DiagnosticCollection | undefined = undefined;
+// Projects whose cycles are in cycleDiagnostics, re-checked after every build
+const cycleDiagnosticProjects = new Set<string>();
+// Diagnostics for dependencies that break the rules of a `.bibimbob.json` file
+let ruleDiagnostics: vscode.DiagnosticCollection | undefined = undefined;
 
 function clearUsageCountDecoration(editor?: vscode.TextEditor) {
   if (usageCountDecoration) {
@@ -37,8 +212,31 @@ function clearUsageCountDecoration(editor?: vscode.TextEditor) {
   lastDecoratedLine = undefined;
 }
 
-function setUsageCountDecoration(editor: vscode.TextEditor, line: number, usageCount: string) {
+// Build the hover for the usage count annotation, linking every module that uses the value
+function createValueUsageHover(valueName: string, usage: ValueUsage): vscode.MarkdownString {
+  const hover = new vscode.MarkdownString(undefined, true);
+  hover.isTrusted = { enabledCommands: [OPEN_MODULE] };
+
+  const usingModules = getUsingModules(usage);
+
+  if (usingModules.length === 0) {
+    hover.appendMarkdown(usage.count === '0'
+      ? `\`${valueName}\` is not used by any module.`
+      : `No usage information is available for \`${valueName}\`.`);
+    return hover;
+  }
+
+  hover.appendMarkdown(`\`${valueName}\` is used by:\n\n`);
+  for (const module of usingModules) {
+    const args = encodeURIComponent(JSON.stringify([module.name]));
+    hover.appendMarkdown(`- [${module.name}](command:${OPEN_MODULE}?${args} "Open ${module.name}") — ${module.count} use${module.count === 1 ? '' : 's'}\n`);
+  }
+  return hover;
+}
+
+function setUsageCountDecoration(editor: vscode.TextEditor, line: number, valueName: string, usage: ValueUsage) {
   clearUsageCountDecoration(editor);
+  const usageCount = usage.count;
 
   usageCountDecoration = vscode.window.createTextEditorDecorationType({
     isWholeLine: true,
@@ -49,26 +247,70 @@ function setUsageCountDecoration(editor: vscode.TextEditor, line: number, usageC
       fontStyle: 'italic',
     },
   });
+  // Cover the whole line so hovering anywhere on it shows the per-module breakdown
   editor.setDecorations(usageCountDecoration, [
-    { range: new vscode.Range(line, 0, line, 0) }
+    {
+      range: new vscode.Range(line, 0, line, editor.document.lineAt(line).text.length),
+      hoverMessage: createValueUsageHover(valueName, usage)
+    }
   ]);
   lastDecoratedLine = line;
 }
 
-function parseValueUsageCount(output: string): string {
+// Parse the per-module usage counts of the value usage analysis.
+// Negative counts are CLI error codes for modules that could not be analyzed and are left out.
+function parseValueUsage(output: string): ValueUsage {
   try {
-    const parsed = JSON.parse(output) as { modules?: Array<{ count?: number }> };
+    const parsed = JSON.parse(output) as { modules?: Array<{ name?: string; count?: number }> };
     if (!Array.isArray(parsed.modules)) {
-      return '?';
+      return { count: '?', modules: [] };
     }
-    const total = parsed.modules.reduce((sum, module) => sum + (typeof module.count === 'number' ? module.count : 0), 0);
-    return String(total);
+    const modules: ModuleUsage[] = parsed.modules
+      .filter(module => typeof module.name === 'string' && typeof module.count === 'number' && module.count >= 0)
+      .map(module => ({ name: module.name!, count: module.count! }));
+    const total = modules.reduce((sum, module) => sum + module.count, 0);
+    return { count: String(total), modules };
   } catch (error) {
     console.log('[Bibimbob] Could not parse value usage JSON output:', error, output);
-    return '?';
+    return { count: '?', modules: [] };
   }
 }
 
+function parseValueUsageCount(output: string): string {
+  return parseValueUsage(output).count;
+}
+
+// Run the value usage analysis for a let binding, reusing recent results from usageCountCache
+async function fetchValueUsage(
+  context: vscode.ExtensionContext,
+  projectRoot: string,
+  fileName: string,
+  documentVersion: number,
+  line: number,
+  valueName: string
+): Promise<ValueUsage> {
+  const bsDir = getBuildDir(projectRoot);
+  const sourceMtime = fs.existsSync(fileName) ? fs.statSync(fileName).mtimeMs : 0;
+  const bsMtime = fs.existsSync(bsDir) ? fs.statSync(bsDir).mtimeMs : 0;
+  const cacheKey = [projectRoot, fileName, sourceMtime, bsMtime, documentVersion, line + 1, valueName].join(':');
+  const cached = usageCountCache.get(cacheKey);
+
+  if (cached && Date.now() - cached.timestamp < VALUE_USAGE_CACHE_TTL_MS) {
+    return cached.usage;
+  }
+
+  const moduleName = path.basename(fileName, '.res');
+  const lineNumber = line + 1;
+  const args = ['-m', moduleName, '-vb', valueName, '-vl', String(lineNumber), '-f', 'json', bsDir];
+
+  const cliPath = await findRescriptDepCLI(context);
+  console.log('[Bibimbob] Running CLI:', cliPath, args);
+  const result = await runRescriptDep(cliPath, args, getConfiguration());
+  const usage = parseValueUsage(result);
+  usageCountCache.set(cacheKey, { usage, timestamp: Date.now() });
+  return usage;
+}
+
 async function updateValueUsageDecoration(
   context: vscode.ExtensionContext,
   editor: vscode.TextEditor,
@@ -100,34 +342,18 @@ async function updateValueUsageDecoration(
   }
 
   const fileName = document.fileName;
-  const workspaceRoot = workspaceFolders[0].uri.fsPath;
-  const projectRoot = await findProjectRootForFile(fileName, workspaceRoot) || workspaceRoot;
-  const bsDir = path.join(projectRoot, 'lib', 'bs');
-  const sourceMtime = fs.existsSync(fileName) ? fs.statSync(fileName).mtimeMs : 0;
-  const bsMtime = fs.existsSync(bsDir) ? fs.statSync(bsDir).mtimeMs : 0;
-  const cacheKey = [projectRoot, fileName, sourceMtime, bsMtime, documentVersion, line + 1, valueName].join(':');
-  const cached = usageCountCache.get(cacheKey);
-  const now = Date.now();
-
-  if (cached && now - cached.timestamp < VALUE_USAGE_CACHE_TTL_MS) {
-    setUsageCountDecoration(editor, line, cached.count);
+  const workspaceRoot = getWorkspaceRootForFile(fileName);
+  if (!workspaceRoot) {
     return;
   }
-
+  const projectRoot = await findProjectRootForFile(fileName, workspaceRoot) || workspaceRoot;
   const requestSerial = ++usageCountRequestSerial;
-  const moduleName = path.basename(fileName, '.res');
-  const lineNumber = line + 1;
-  const args = ['-m', moduleName, '-vb', valueName, '-vl', String(lineNumber), '-f', 'json', bsDir];
 
-  let usageCount = '?';
+  let usage: ValueUsage;
   try {
-    const cliPath = await findRescriptDepCLI(context);
-    console.log('[Bibimbob] Running CLI:', cliPath, args);
-    const result = await runRescriptDep(cliPath, args);
-    usageCount = parseValueUsageCount(result);
-    usageCountCache.set(cacheKey, { count: usageCount, timestamp: Date.now() });
+    usage = await fetchValueUsage(context, projectRoot, fileName, documentVersion, line, valueName);
   } catch (err) {
-    usageCount = 'error';
+    usage = { count: 'error', modules: [] };
     console.log('[Bibimbob] CLI call failed:', err);
   }
 
@@ -147,14 +373,14 @@ async function updateValueUsageDecoration(
     return;
   }
 
-  setUsageCountDecoration(editor, line, usageCount);
+  setUsageCountDecoration(editor, line, valueName, usage);
   console.log('[Bibimbob] Decoration set for line', line, '(after let declaration)');
 }
 
 export function activate(context: vscode.ExtensionContext) {
   // Command for full dependency graph
-  let fullGraphCommand = vscode.commands.registerCommand(SHOW_DEPENDENCY_GRAPH, async () => {
-    await generateDependencyGraph(context);
+  let fullGraphCommand = vscode.commands.registerCommand(SHOW_DEPENDENCY_GRAPH, async (projectRoot?: string) => {
+    await generateDependencyGraph(context, false, false, projectRoot);
   });
 
   // Command for module-focused dependency graph
@@ -163,8 +389,8 @@ export function activate(context: vscode.ExtensionContext) {
   });
 
   // Command for showing modules with no dependents (unused modules)
-  let unusedModulesCommand = vscode.commands.registerCommand(SHOW_UNUSED_MODULES, async () => {
-    await generateDependencyGraph(context, false, true);
+  let unusedModulesCommand = vscode.commands.registerCommand(SHOW_UNUSED_MODULES, async (projectRoot?: string) => {
+    await generateDependencyGraph(context, false, true, projectRoot);
   });
 
   // Command to toggle value usage count display
@@ -186,10 +412,250 @@ export function activate(context: vscode.ExtensionContext) {
   context.subscriptions.push(unusedModulesCommand);
   context.subscriptions.push(toggleValueUsageCountCommand);
 
+  // Restore the graph panel after VS Code reloads
+  context.subscriptions.push(vscode.window.registerWebviewPanelSerializer(GRAPH_PANEL_VIEW_TYPE, {
+    async deserializeWebviewPanel(panel: vscode.WebviewPanel, state: GraphPanelState | undefined) {
+      await reviveGraphPanel(context, panel, state);
+    }
+  }));
+
+  // Dependency explorer tree view in the sidebar
+  const dependencyTreeProvider = new DependencyTreeProvider(async projectRoot => {
+    const cliPath = await findRescriptDepCLI(context);
+    return loadDependencyGraph(cliPath, [getBuildDir(projectRoot)]);
+  });
+  const dependencyTreeView = vscode.window.createTreeView(DEPENDENCY_EXPLORER_VIEW, {
+    treeDataProvider: dependencyTreeProvider,
+    showCollapseAll: true
+  });
+  context.subscriptions.push(dependencyTreeProvider, dependencyTreeView);
+
+  // Command to choose which project the dependency explorer shows
+  context.subscriptions.push(vscode.commands.registerCommand(SELECT_EXPLORER_PROJECT, async () => {
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    if (!workspaceFolders || workspaceFolders.length === 0) {
+      vscode.window.showErrorMessage('No workspace folder open');
+      return;
+    }
+
+    const projectRoot = await selectProjectRoot();
+    if (!projectRoot) {
+      return;
+    }
+
+    dependencyTreeView.description = path.basename(projectRoot);
+    await dependencyTreeProvider.setProject(projectRoot);
+  }));
+
+  context.subscriptions.push(vscode.commands.registerCommand(REFRESH_EXPLORER, async () => {
+    if (!dependencyTreeProvider.getProjectRoot()) {
+      await vscode.commands.executeCommand(SELECT_EXPLORER_PROJECT);
+      return;
+    }
+    await dependencyTreeProvider.refresh();
+  }));
+
+  // Command used by the dependency explorer to open a module's source file
+  context.subscriptions.push(vscode.commands.registerCommand(OPEN_MODULE, async (moduleName: string, filePath?: string | null) => {
+    await openModuleFile(moduleName, filePath);
+  }));
+
+  // Command for the package-level graph of a monorepo
+  context.subscriptions.push(vscode.commands.registerCommand(SHOW_PACKAGE_GRAPH, async () => {
+    await generatePackageGraph(context);
+  }));
+
+  // Command to export the graph currently shown in the webview
+  context.subscriptions.push(vscode.commands.registerCommand(EXPORT_GRAPH, async () => {
+    await exportGraph();
+  }));
+
+  // Command to show how one module ends up depending on another
+  context.subscriptions.push(vscode.commands.registerCommand(SHOW_PATH_BETWEEN_MODULES, async () => {
+    await showPathBetweenModules(context);
+  }));
+
+  // Command to list the dependency cycles of a project and report them in the Problems panel
+  cycleDiagnostics = vscode.languages.createDiagnosticCollection('bibimbob-cycles');
+  context.subscriptions.push(cycleDiagnostics);
+  context.subscriptions.push(vscode.commands.registerCommand(SHOW_CYCLES, async (projectRoot?: string) => {
+    await showCycles(context, projectRoot);
+  }));
+
+  // Command to list the coupling metrics of every module in a sortable table
+  context.subscriptions.push(vscode.commands.registerCommand(SHOW_MODULE_METRICS, async () => {
+    await showModuleMetrics(context);
+  }));
+
+  // Command to show the modules changed since a git ref and every module that depends on them
+  context.subscriptions.push(vscode.commands.registerCommand(SHOW_CHANGE_IMPACT, async () => {
+    await showChangeImpact(context);
+  }));
+
+  // Commands to save named snapshots of a project's graph and to draw the difference between two of them
+  context.subscriptions.push(vscode.commands.registerCommand(SAVE_GRAPH_SNAPSHOT, async () => {
+    await saveGraphSnapshot(context);
+  }));
+  context.subscriptions.push(vscode.commands.registerCommand(COMPARE_SNAPSHOTS, async () => {
+    await compareSnapshots(context);
+  }));
+
+  // Command to find the test modules that depend on the working tree changes and run or list them
+  context.subscriptions.push(vscode.commands.registerCommand(RUN_AFFECTED_TESTS, async () => {
+    await runAffectedTests(context);
+  }));
+
+  // Command to check a project's dependencies against its `.bibimbob.json` rules
+  ruleDiagnostics = vscode.languages.createDiagnosticCollection('bibimbob-rules');
+  context.subscriptions.push(ruleDiagnostics);
+  context.subscriptions.push(vscode.commands.registerCommand(CHECK_DEPENDENCY_RULES, async () => {
+    await checkDependencyRules(context);
+  }));
+  // Re-check every project when a rules file changes, and redraw the graph panel's highlights
+  const onRulesFileChange = () => {
+    checkAllProjectRules(context);
+    refreshGraphPanel(context);
+  };
+  const rulesFileWatcher = vscode.workspace.createFileSystemWatcher(`**/${RULES_FILE_NAME}`);
+  rulesFileWatcher.onDidChange(onRulesFileChange);
+  rulesFileWatcher.onDidCreate(onRulesFileChange);
+  rulesFileWatcher.onDidDelete(onRulesFileChange);
+  context.subscriptions.push(rulesFileWatcher);
+  checkAllProjectRules(context);
+
+  // Command to report unused top-level values in the Problems panel
+  unusedValueDiagnostics = vscode.languages.createDiagnosticCollection('bibimbob-unused-values');
+  context.subscriptions.push(unusedValueDiagnostics);
+  context.subscriptions.push(vscode.commands.registerCommand(FIND_UNUSED_VALUES, async () => {
+    await findUnusedValues(context);
+  }));
+
+  // CodeLens with the usage count above every top-level let binding
+  const valueUsageCodeLensProvider = new ValueUsageCodeLensProvider(
+    async (document, binding) => {
+      const workspaceRoot = getWorkspaceRootForFile(document.fileName);
+      if (!workspaceRoot) {
+        return { count: '?', modules: [] };
+      }
+      const projectRoot = await findProjectRootForFile(document.fileName, workspaceRoot) || workspaceRoot;
+      return fetchValueUsage(context, projectRoot, document.fileName, document.version, binding.line, binding.name);
+    },
+    () => getConfiguration().valueUsageCodeLens
+  );
+  context.subscriptions.push(valueUsageCodeLensProvider);
+  context.subscriptions.push(vscode.languages.registerCodeLensProvider(
+    { language: 'rescript', pattern: '**/*.res' },
+    valueUsageCodeLensProvider
+  ));
+  // Dirty documents show the counts of the last save, so resolve the lenses again once saved
+  context.subscriptions.push(vscode.workspace.onDidSaveTextDocument(document => {
+    if (document.languageId === 'rescript') {
+      valueUsageCodeLensProvider.refresh();
+    }
+  }));
+  context.subscriptions.push(vscode.workspace.onDidCloseTextDocument(document => {
+    valueUsageCodeLensProvider.forget(document);
+  }));
+  context.subscriptions.push(vscode.commands.registerCommand(SHOW_VALUE_USAGES, async (valueName: string, usage: ValueUsage) => {
+    await showValueUsages(valueName, usage);
+  }));
+  // Status bar item with the module, cycle and unused module counts of the active file's project
+  const dependencyStatusBar = new DependencyStatusBar(
+    findWorkspaceProjectRoot,
+    projectRoot => loadProjectHealth(context, projectRoot),
+    { showGraph: SHOW_DEPENDENCY_GRAPH, showCycles: SHOW_CYCLES, showUnusedModules: SHOW_UNUSED_MODULES }
+  );
+  context.subscriptions.push(dependencyStatusBar);
+  context.subscriptions.push(vscode.commands.registerCommand(SHOW_STATUS_MENU, async () => {
+    await dependencyStatusBar.showMenu();
+  }));
+  context.subscriptions.push(vscode.window.onDidChangeActiveTextEditor(editor => {
+    dependencyStatusBar.setActiveEditor(editor);
+  }));
+  dependencyStatusBar.setActiveEditor(vscode.window.activeTextEditor);
+
+  // Hover on `open Logger` and `Utils.formatDate` with the module's dependency summary
+  context.subscriptions.push(vscode.languages.registerHoverProvider(
+    { language: 'rescript', scheme: 'file' },
+    new ModuleHoverProvider(findWorkspaceProjectRoot, projectRoot => getProjectGraph(context, projectRoot))
+  ));
+  context.subscriptions.push(vscode.commands.registerCommand(FOCUS_MODULE_IN_GRAPH, async (projectRoot: string, moduleName: string) => {
+    await focusModuleInGraph(context, projectRoot, moduleName);
+  }));
+
+  // Refresh usage counts when the ReScript build output changes
+  let buildOutputDebounceTimer: ReturnType<typeof setTimeout> | undefined = undefined;
+  const onBuildOutputChange = () => {
+    if (buildOutputDebounceTimer) {
+      clearTimeout(buildOutputDebounceTimer);
+    }
+    buildOutputDebounceTimer = setTimeout(() => {
+      buildOutputDebounceTimer = undefined;
+      usageCountCache.clear();
+      valueUsageCodeLensProvider.refresh();
+      projectGraphCache.clear();
+      checkAllProjectRules(context);
+      refreshCycleDiagnostics(context);
+      dependencyStatusBar.refresh();
+    }, BUILD_OUTPUT_DEBOUNCE_MS);
+  };
+  // Recreated when `bibimbob.buildDir` changes
+  let buildOutputWatcher: vscode.FileSystemWatcher | undefined = undefined;
+  const watchBuildOutput = () => {
+    buildOutputWatcher?.dispose();
+    const buildDir = getConfiguration().buildDir;
+    buildOutputWatcher = vscode.workspace.createFileSystemWatcher(path.isAbsolute(buildDir)
+      ? new vscode.RelativePattern(buildDir, '**/*.cmt')
+      : `**/${buildDir.replace(/\\/g, '/')}/**/*.cmt`);
+    buildOutputWatcher.onDidChange(onBuildOutputChange);
+    buildOutputWatcher.onDidCreate(onBuildOutputChange);
+    buildOutputWatcher.onDidDelete(onBuildOutputChange);
+  };
+  watchBuildOutput();
+  context.subscriptions.push({
+    dispose: () => {
+      buildOutputWatcher?.dispose();
+      if (buildOutputDebounceTimer) {
+        clearTimeout(buildOutputDebounceTimer);
+      }
+    }
+  });
+
+  // Apply setting changes without reloading the window
+  context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(event => {
+    if (!event.affectsConfiguration(CONFIGURATION_SECTION)) {
+      return;
+    }
+    if (event.affectsConfiguration(`${CONFIGURATION_SECTION}.buildDir`)) {
+      watchBuildOutput();
+    }
+    // Results computed with another CLI or build directory are stale
+    if (['cliPath', 'buildDir'].some(key => event.affectsConfiguration(`${CONFIGURATION_SECTION}.${key}`))) {
+      usageCountCache.clear();
+      usageCountRequestSerial++;
+      dependencyTreeProvider.refresh();
+      projectGraphCache.clear();
+      dependencyStatusBar.refresh();
+      if (currentPanel && getPanelBuildDirs().length > 0) {
+        watchGraphBuildOutput(context, getPanelBuildDirs());
+        refreshGraphPanel(context);
+      }
+    }
+    if (event.affectsConfiguration(`${CONFIGURATION_SECTION}.valueUsageCodeLens`) ||
+      event.affectsConfiguration(`${CONFIGURATION_SECTION}.cliPath`) ||
+      event.affectsConfiguration(`${CONFIGURATION_SECTION}.buildDir`)) {
+      valueUsageCodeLensProvider.refresh();
+    }
+  }));
+
   context.subscriptions.push(vscode.workspace.onDidChangeTextDocument(event => {
     if (event.document.languageId === 'rescript') {
       usageCountCache.clear();
       usageCountRequestSerial++;
+      // Line numbers of reported values are stale after an edit
+      if (event.contentChanges.length > 0) {
+        unusedValueDiagnostics?.delete(event.document.uri);
+      }
     }
   }));
 
@@ -238,44 +704,209 @@ export function activate(context: vscode.ExtensionContext) {
   }));
 }
 
+// List the modules that use a value and open the selected one
+async function showValueUsages(valueName: string, usage: ValueUsage) {
+  const usingModules = getUsingModules(usage);
+  if (usingModules.length === 0) {
+    vscode.window.showInformationMessage(
+      usage.count === '0' ? `${valueName} is not used anywhere.` : `No usage information is available for ${valueName}.`
+    );
+    return;
+  }
+
+  const selected = await vscode.window.showQuickPick(
+    usingModules.map(module => ({
+      label: module.name,
+      description: `${module.count} use${module.count === 1 ? '' : 's'}`,
+      moduleName: module.name
+    })),
+    { placeHolder: `Modules using ${valueName}` }
+  );
+  if (selected) {
+    await openModuleFile(selected.moduleName);
+  }
+}
+
+// Run the value usage analysis for every top-level let binding in the current module
+// or the whole project, and publish zero-usage bindings as diagnostics
+async function findUnusedValues(context: vscode.ExtensionContext) {
+  const workspaceFolders = vscode.workspace.workspaceFolders;
+  if (!workspaceFolders || workspaceFolders.length === 0) {
+    vscode.window.showErrorMessage('No workspace folder open');
+    return;
+  }
+
+  // Offer the current module as scope when a .res file is active
+  const activeDocument = vscode.window.activeTextEditor?.document;
+  const activeFile = activeDocument && activeDocument.fileName.endsWith('.res') ? activeDocument.fileName : undefined;
+  let scope: 'module' | 'project' = 'project';
+  if (activeFile) {
+    const selected = await vscode.window.showQuickPick([
+      { label: 'Current Module', description: path.basename(activeFile), scope: 'module' as const },
+      { label: 'Whole Project', description: 'All .res files of the project', scope: 'project' as const }
+    ], { placeHolder: 'Where should unused values be searched?' });
+    if (!selected) {
+      return;
+    }
+    scope = selected.scope;
+  }
+
+  let projectRoot: string | undefined;
+  let files: string[];
+  if (scope === 'module' && activeFile) {
+    projectRoot = await findWorkspaceProjectRoot(activeFile) ?? await selectProjectRoot();
+    files = [activeFile];
+  } else {
+    projectRoot = await selectProjectRoot();
+    if (!projectRoot) {
+      return;
+    }
+    // Skip the compiler output and nested projects, which have their own build directory
+    const excludedDirs = [
+      getBuildDir(projectRoot),
+      path.join(projectRoot, 'lib', 'ocaml'),
+      ...(await getWorkspaceProjectRoots()).filter(root => root.startsWith(projectRoot + path.sep))
+    ];
+    const uris = await vscode.workspace.findFiles(new vscode.RelativePattern(projectRoot, '**/*.res'), '**/node_modules/**');
+    files = uris
+      .map(uri => uri.fsPath)
+      .filter(file => !excludedDirs.some(dir => file.startsWith(dir + path.sep)))
+      .sort();
+
+    // Drop the results of files that are no longer part of the project, e.g. deleted ones
+    const scannedFiles = new Set(files);
+    const staleUris: vscode.Uri[] = [];
+    unusedValueDiagnostics?.forEach(uri => {
+      if (uri.fsPath.startsWith(projectRoot + path.sep) && !scannedFiles.has(uri.fsPath)) {
+        staleUris.push(uri);
+      }
+    });
+    staleUris.forEach(uri => unusedValueDiagnostics?.delete(uri));
+  }
+
+  if (!projectRoot) {
+    vscode.window.showErrorMessage('Could not determine the ReScript project root (no bsconfig/rescript.json found in parent directories).');
+    return;
+  }
+
+  const bsDir = getBuildDir(projectRoot);
+  if (!fs.existsSync(bsDir)) {
+    vscode.window.showWarningMessage(`ReScript build directory not found: ${bsDir}. Please ensure the project is compiled.`);
+    return;
+  }
+
+  await vscode.window.withProgress({
+    location: vscode.ProgressLocation.Notification,
+    title: 'Bibimbob: Finding unused values',
+    cancellable: true
+  }, async (progress, token) => {
+    const cliPath = await findRescriptDepCLI(context);
+    const severity = getConfiguration().unusedValueSeverity;
+
+    // Collect the bindings of every file first so progress can be reported per binding
+    const targets: Array<{ file: string; bindings: LetBinding[] }> = [];
+    for (const file of files) {
+      const text = await fs.promises.readFile(file, 'utf8');
+      targets.push({ file, bindings: findTopLevelLetBindings(text) });
+    }
+    const totalBindings = targets.reduce((sum, target) => sum + target.bindings.length, 0);
+
+    let checkedBindings = 0;
+    let unusedCount = 0;
+    let failedCount = 0;
+
+    for (const { file, bindings } of targets) {
+      if (token.isCancellationRequested) {
+        break;
+      }
+
+      const moduleName = path.basename(file, '.res');
+      const diagnostics: vscode.Diagnostic[] = [];
+
+      for (const binding of bindings) {
+        if (token.isCancellationRequested) {
+          break;
+        }
+        progress.report({
+          message: `${moduleName}.${binding.name} (${checkedBindings + 1}/${totalBindings})`,
+          increment: 100 / totalBindings
+        });
+
+        const args = ['-m', moduleName, '-vb', binding.name, '-vl', String(binding.line + 1), '-f', 'json', bsDir];
+        try {
+          const usageCount = parseValueUsageCount(await runRescriptDep(cliPath, args, getConfiguration()));
+          if (usageCount === '0') {
+            const range = new vscode.Range(binding.line, binding.startCharacter, binding.line, binding.endCharacter);
+            const diagnostic = new vscode.Diagnostic(range, `Value "${binding.name}" is never used`, severity);
+            diagnostic.source = 'Bibimbob';
+            diagnostic.tags = [vscode.DiagnosticTag.Unnecessary];
+            diagnostics.push(diagnostic);
+          }
+        } catch (err) {
+          failedCount++;
+          console.log('[Bibimbob] CLI call failed:', err);
+        }
+        checkedBindings++;
+      }
+
+      unusedCount += diagnostics.length;
+      unusedValueDiagnostics?.set(vscode.Uri.file(file), diagnostics);
+    }
+
+    const summary = `Found ${unusedCount} unused value${unusedCount === 1 ? '' : 's'} in ${checkedBindings} of ${totalBindings} checked bindings`
+      + (failedCount > 0 ? ` (${failedCount} could not be analyzed)` : '')
+      + (token.isCancellationRequested ? ' before the search was cancelled.' : '.');
+    vscode.window.showInformationMessage(summary);
+  });
+}
+
 // Helper function to get current module name from active editor
 function getCurrentModuleNameFromActiveEditor(): string | undefined {
   const editor = vscode.window.activeTextEditor;
   if (!editor) { return undefined; }
 
-  const document = editor.document;
-  const fileName = document.fileName;
+  // Only implementation files, which are the ones the graph links to
+  const fileName = editor.document.fileName;
+  return path.extname(fileName) === '.res' ? getModuleNameForFile(fileName) : undefined;
+}
 
-  // Check if it's a ReScript file
-  if (path.extname(fileName) === '.res') {
-    // Get the base filename without extension and capitalize first letter
-    // ReScript modules start with capital letter
-    const baseName = path.basename(fileName, '.res');
-    return baseName.charAt(0).toUpperCase() + baseName.slice(1);
-  }
+// Root paths of every workspace folder, in workspace order
+function getWorkspaceRoots(): string[] {
+  return (vscode.workspace.workspaceFolders ?? []).map(folder => folder.uri.fsPath);
+}
 
-  return undefined;
+// Root of the workspace folder that contains a file; undefined for files outside the workspace
+function getWorkspaceRootForFile(filePath: string): string | undefined {
+  return vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath))?.uri.fsPath;
 }
 
-// Restore findConfigFile function definition at the top level
-async function findConfigFile(workspaceRoot: string): Promise<vscode.Uri | undefined> {
-  // Prioritize bsconfig.json, then rescript.json
-  const bsconfigFiles = await vscode.workspace.findFiles(
-    new vscode.RelativePattern(workspaceRoot, '**/bsconfig.json'),
-    '**/node_modules/**', // exclude node_modules
-    1 // find only the first one
-  );
-  if (bsconfigFiles.length > 0) {
-    return bsconfigFiles[0];
-  }
+// Project of a file in one of the workspace folders; files outside them belong to no project
+async function findWorkspaceProjectRoot(filePath: string): Promise<string | undefined> {
+  const workspaceRoot = getWorkspaceRootForFile(filePath);
+  return workspaceRoot ? findProjectRootForFile(filePath, workspaceRoot) : undefined;
+}
 
-  const rescriptFiles = await vscode.workspace.findFiles(
-    new vscode.RelativePattern(workspaceRoot, '**/rescript.json'),
-    '**/node_modules/**', // exclude node_modules
-    1 // find only the first one
-  );
-  if (rescriptFiles.length > 0) {
-    return rescriptFiles[0];
+// Find the first ReScript config file, searching the workspace folders in order
+async function findConfigFile(): Promise<vscode.Uri | undefined> {
+  for (const workspaceRoot of getWorkspaceRoots()) {
+    // Prioritize bsconfig.json, then rescript.json
+    const bsconfigFiles = await vscode.workspace.findFiles(
+      new vscode.RelativePattern(workspaceRoot, '**/bsconfig.json'),
+      '**/node_modules/**', // exclude node_modules
+      1 // find only the first one
+    );
+    if (bsconfigFiles.length > 0) {
+      return bsconfigFiles[0];
+    }
+
+    const rescriptFiles = await vscode.workspace.findFiles(
+      new vscode.RelativePattern(workspaceRoot, '**/rescript.json'),
+      '**/node_modules/**', // exclude node_modules
+      1 // find only the first one
+    );
+    if (rescriptFiles.length > 0) {
+      return rescriptFiles[0];
+    }
   }
 
   return undefined; // Should not happen if activationEvents worked
@@ -321,21 +952,26 @@ async function findProjectRootForFile(filePath: string, workspaceRoot: string):
   return undefined;
 }
 
-// Helper function to detect monorepo and find all projects with ReScript config
-async function detectMonorepoProjects(workspaceRoot: string): Promise<vscode.Uri[]> {
-  // Find all bsconfig.json or rescript.json files in the workspace
-  const bsconfigFiles = await vscode.workspace.findFiles(
-    new vscode.RelativePattern(workspaceRoot, '**/bsconfig.json'),
-    '**/node_modules/**', // exclude node_modules
-  );
+// Helper function to detect monorepo and find all projects with ReScript config.
+// Covers every workspace folder; the result is ordered by folder.
+async function detectMonorepoProjects(): Promise<vscode.Uri[]> {
+  const allConfigFiles: vscode.Uri[] = [];
 
-  const rescriptFiles = await vscode.workspace.findFiles(
-    new vscode.RelativePattern(workspaceRoot, '**/rescript.json'),
-    '**/node_modules/**', // exclude node_modules
-  );
+  for (const workspaceRoot of getWorkspaceRoots()) {
+    // Find all bsconfig.json or rescript.json files in the workspace folder
+    const bsconfigFiles = await vscode.workspace.findFiles(
+      new vscode.RelativePattern(workspaceRoot, '**/bsconfig.json'),
+      '**/node_modules/**', // exclude node_modules
+    );
+
+    const rescriptFiles = await vscode.workspace.findFiles(
+      new vscode.RelativePattern(workspaceRoot, '**/rescript.json'),
+      '**/node_modules/**', // exclude node_modules
+    );
 
-  // Combine both types of config files
-  const allConfigFiles = [...bsconfigFiles, ...rescriptFiles];
+    // Combine both types of config files
+    allConfigFiles.push(...bsconfigFiles, ...rescriptFiles);
+  }
 
   // If there's more than one config file, it might be a monorepo
   if (allConfigFiles.length > 1) {
@@ -346,19 +982,39 @@ async function detectMonorepoProjects(workspaceRoot: string): Promise<vscode.Uri
 }
 
 // Function to prompt user to select a project from a monorepo
-async function selectMonorepoProject(projects: vscode.Uri[]): Promise<string | undefined> {
+// With includeWholeWorkspace, a "Whole Workspace" item returns WHOLE_WORKSPACE.
+async function selectMonorepoProject(projects: vscode.Uri[], includeWholeWorkspace: boolean = false): Promise<string | undefined> {
+  // Group projects under a separator per workspace folder in multi-root workspaces
+  const isMultiRoot = (vscode.workspace.workspaceFolders?.length ?? 0) > 1;
+  const items: (vscode.QuickPickItem & { projectRoot?: string })[] = [];
+  let currentFolder: vscode.WorkspaceFolder | undefined;
+
+  if (includeWholeWorkspace) {
+    items.push({
+      label: 'Whole Workspace',
+      description: `All ${projects.length} projects, with dependencies between packages`,
+      projectRoot: WHOLE_WORKSPACE
+    });
+  }
+
   // Create QuickPick items from project paths
-  const items = projects.map(uri => {
-    const relativePath = vscode.workspace.asRelativePath(uri);
+  for (const uri of projects) {
+    const folder = vscode.workspace.getWorkspaceFolder(uri);
+    if (isMultiRoot && folder && folder !== currentFolder) {
+      items.push({ label: folder.name, kind: vscode.QuickPickItemKind.Separator });
+      currentFolder = folder;
+    }
+
+    const relativePath = vscode.workspace.asRelativePath(uri, false);
     const projectDir = path.dirname(uri.fsPath);
     const projectName = path.basename(projectDir);
 
-    return {
+    items.push({
       label: projectName,
       description: relativePath,
       projectRoot: projectDir
-    };
-  });
+    });
+  }
 
   // Show QuickPick to user
   const selectedItem = await vscode.window.showQuickPick(items, {
@@ -369,8 +1025,43 @@ async function selectMonorepoProject(projects: vscode.Uri[]): Promise<string | u
   return selectedItem?.projectRoot;
 }
 
+// Determine which project to analyze: ask the user to pick one in a monorepo,
+// otherwise use the first config file found in the workspace folders
+async function selectProjectRoot(
+  progress?: vscode.Progress<{ message?: string }>,
+  includeWholeWorkspace: boolean = false
+): Promise<string | undefined> {
+  // Check if this is a monorepo with multiple projects
+  progress?.report({ message: 'Checking workspace structure...' });
+  const monorepoProjects = await detectMonorepoProjects();
+
+  // If it's a monorepo with multiple projects, ask user to select one
+  if (monorepoProjects.length > 1) {
+    progress?.report({ message: 'Monorepo detected. Please select a project...' });
+    return selectMonorepoProject(monorepoProjects, includeWholeWorkspace);
+  }
+
+  // Find the initial config file (used for full graph or as fallback)
+  progress?.report({ message: 'Finding ReScript config file...' });
+  const initialConfigFileUri = await findConfigFile();
+
+  // If no config file is found anywhere, exit (should be caught by activationEvents)
+  if (!initialConfigFileUri) {
+    vscode.window.showErrorMessage('Could not find any bsconfig.json or rescript.json in the workspace (excluding node_modules).');
+    return undefined;
+  }
+
+  // Use the initially found config file's location
+  return path.dirname(initialConfigFileUri.fsPath);
+}
+
 // Integrated common logic into a single function
-async function generateDependencyGraph(context: vscode.ExtensionContext, focusOnModule: boolean = false, showUnusedModules: boolean = false) {
+async function generateDependencyGraph(
+  context: vscode.ExtensionContext,
+  focusOnModule: boolean = false,
+  showUnusedModules: boolean = false,
+  targetProjectRoot?: string
+) {
   // Use withProgress API to show a progress notification in the bottom right
   return vscode.window.withProgress({
     location: vscode.ProgressLocation.Notification,
@@ -385,9 +1076,6 @@ async function generateDependencyGraph(context: vscode.ExtensionContext, focusOn
       return;
     }
 
-    // Use the first workspace folder as the root for searching
-    const workspaceRoot = workspaceFolders[0].uri.fsPath;
-
     let projectRoot: string;
     let moduleName: string | undefined;
 
@@ -398,6 +1086,8 @@ async function generateDependencyGraph(context: vscode.ExtensionContext, focusOn
 
       // Get module name (from editor or input)
       moduleName = getCurrentModuleNameFromActiveEditor();
+      // The active file is the module's source, so it also decides the workspace folder
+      const activeFile = moduleName ? vscode.window.activeTextEditor?.document.fileName : undefined;
       if (!moduleName) {
         moduleName = await vscode.window.showInputBox({
           prompt: 'Enter module name to focus on',
@@ -408,7 +1098,7 @@ async function generateDependencyGraph(context: vscode.ExtensionContext, focusOn
 
       // Find the source file for the target module
       progress.report({ message: `Finding source file for ${moduleName}...` });
-      const moduleInfo = await findModuleInProject(moduleName);
+      const moduleInfo = activeFile ? { path: activeFile, line: 1 } : await findModuleInProject(moduleName);
       if (!moduleInfo) {
         vscode.window.showErrorMessage(`Could not find the source file for module: ${moduleName}`);
         return;
@@ -416,7 +1106,7 @@ async function generateDependencyGraph(context: vscode.ExtensionContext, focusOn
 
       // Find the project root specific to this module's source file
       progress.report({ message: `Finding project root for ${moduleName}...` });
-      const moduleProjectRoot = await findProjectRootForFile(moduleInfo.path, workspaceRoot);
+      const moduleProjectRoot = await findWorkspaceProjectRoot(moduleInfo.path);
       if (!moduleProjectRoot) {
         vscode.window.showErrorMessage(`Could not determine the project root for module: ${moduleName} (no bsconfig/rescript.json found in parent directories).`);
         return;
@@ -426,44 +1116,26 @@ async function generateDependencyGraph(context: vscode.ExtensionContext, focusOn
       projectRoot = moduleProjectRoot;
     } else {
       // Only check for monorepo and ask for project selection when not focusing on a specific module
-      // Check if this is a monorepo with multiple projects
-      progress.report({ message: 'Checking workspace structure...' });
-      const monorepoProjects = await detectMonorepoProjects(workspaceRoot);
-
-      // If it's a monorepo with multiple projects, ask user to select one
-      if (monorepoProjects.length > 1) {
-        progress.report({ message: 'Monorepo detected. Please select a project...' });
-        const selectedProjectRoot = await selectMonorepoProject(monorepoProjects);
-
-        if (!selectedProjectRoot) {
-          // User cancelled the selection
-          return;
-        }
-
-        projectRoot = selectedProjectRoot;
-      } else {
-        // Find the initial config file (used for full graph or as fallback)
-        progress.report({ message: 'Finding ReScript config file...' });
-        const initialConfigFileUri = await findConfigFile(workspaceRoot);
-
-        if (token.isCancellationRequested) { return; }
+      // and no project was given (e.g. from the status bar menu)
+      const selectedProjectRoot = targetProjectRoot ?? await selectProjectRoot(progress, !showUnusedModules);
+      if (!selectedProjectRoot || token.isCancellationRequested) {
+        // User cancelled the selection or no config file was found
+        return;
+      }
 
-        // If no config file is found anywhere, exit (should be caught by activationEvents)
-        if (!initialConfigFileUri) {
-          vscode.window.showErrorMessage('Could not find any bsconfig.json or rescript.json in the workspace (excluding node_modules).');
-          return;
-        }
+      projectRoot = selectedProjectRoot;
+    }
 
-        // Use the initially found config file's location
-        projectRoot = path.dirname(initialConfigFileUri.fsPath);
-      }
+    if (projectRoot === WHOLE_WORKSPACE) {
+      await generateWorkspaceGraph(context, progress, token);
+      return;
     }
 
     let bsDir: string;
 
     try {
       // Calculate bsDir based on the determined project root
-      bsDir = path.join(projectRoot, 'lib', 'bs');
+      bsDir = getBuildDir(projectRoot);
 
       // Check if the determined bsDir exists (common check)
       if (!fs.existsSync(bsDir)) {
@@ -476,89 +1148,64 @@ async function generateDependencyGraph(context: vscode.ExtensionContext, focusOn
       if (token.isCancellationRequested) { return; }
       const cliPath = await findRescriptDepCLI(context);
 
-      // Check project size first if not focusing on a specific module
-      if (!focusOnModule && !showUnusedModules) {
-        progress.report({ message: 'Checking project size...' });
-        try {
-          // Get a simple DOT output to estimate the number of modules
-          const sizeCheckArgs = ['--format=dot', bsDir];
-          const dotOutput = await runRescriptDep(cliPath, sizeCheckArgs, context);
-
-          // Count nodes in DOT format by finding quoted node names
-          // Each module appears as "ModuleName" [label="ModuleName", tooltip="..."] in DOT format
-          const nodeMatches = dotOutput.match(/"([^"]+)"\s*\[/g) || [];
-
-          // Filter out style definitions (like "node [shape=box...]")
-          const moduleNodes = nodeMatches.filter(match => !match.startsWith('"node ['));
-          const moduleCount = moduleNodes.length;
-
-          // Prompt user if module count is high
-          if (moduleCount > 1000) {
-            const response = await vscode.window.showWarningMessage(
-              `This project contains approximately ${moduleCount} modules, which may cause performance issues or visualization errors.`,
-              'Continue Anyway', 'Focus on Module', 'Show Unused Modules', 'Cancel'
-            );
-
-            if (response === 'Focus on Module') {
-              // User chose to focus on a specific module
-              await vscode.commands.executeCommand(FOCUS_MODULE_DEPENDENCIES);
-              return;
-            } else if (response === 'Show Unused Modules') {
-              // User chose to show unused modules
-              await vscode.commands.executeCommand(SHOW_UNUSED_MODULES);
-              return;
-            } else if (response !== 'Continue Anyway') {
-              // User chose to cancel
-              return;
-            }
-
-            // If continuing, use the DOT output we already have
-            progress.report({ message: 'Generating visualization...' });
-            if (token.isCancellationRequested) { return; }
-
-            if (dotOutput) {
-              showDotGraphWebview(context, dotOutput, focusOnModule, moduleName, showUnusedModules);
-              return;
-            }
-          }
-        } catch (error) {
-          // If check operation fails, continue anyway with regular flow
-          console.warn('Failed to estimate project size:', error);
-        }
-      }
-
       // Run the CLI command with the determined bsDir and moduleName (if applicable)
       progress.report({ message: showUnusedModules ? 'Finding unused modules...' : 'Running dependency analysis...' });
       if (token.isCancellationRequested) { return; }
 
       // Define CLI arguments based on the analysis type
       let args: string[];
+      let view: GraphView;
 
       if (showUnusedModules) {
         // 1. Unused modules analysis
-        args = ['--format=dot', '--no-dependents'];
+        args = ['--no-dependents'];
+        view = { kind: 'unused', projectRoot };
       } else if (focusOnModule) {
-        // 2. Focus on specific module
-        args = ['--format=dot', '--module', moduleName!];
+        // 2. Focus on specific module, starting from its direct neighbors
+        args = ['--module', moduleName!];
+        currentFocusOptions = DEFAULT_FOCUS_OPTIONS;
+        view = { kind: 'focused', projectRoot, centerModule: moduleName! };
       } else {
         // 3. Full dependency graph
-        args = ['--format=dot'];
+        args = [];
+        view = { kind: 'full', projectRoot };
       }
 
       // Add bsDir target
       args.push(bsDir);
 
-      // Get DOT format data
-      const dotContent = await runRescriptDep(cliPath, args, context);
+      // Get the graph model from the CLI's JSON output
+      const graph = await loadDependencyGraph(cliPath, args);
+
+      // Prompt user if module count is high
+      if (!focusOnModule && !showUnusedModules && graph.modules.size > 1000) {
+        const response = await vscode.window.showWarningMessage(
+          `This project contains approximately ${graph.modules.size} modules, which may cause performance issues or visualization errors.`,
+          'Continue Anyway', 'Focus on Module', 'Show Unused Modules', 'Cancel'
+        );
+
+        if (response === 'Focus on Module') {
+          // User chose to focus on a specific module
+          await vscode.commands.executeCommand(FOCUS_MODULE_DEPENDENCIES);
+          return;
+        } else if (response === 'Show Unused Modules') {
+          // User chose to show unused modules
+          await vscode.commands.executeCommand(SHOW_UNUSED_MODULES);
+          return;
+        } else if (response !== 'Continue Anyway') {
+          // User chose to cancel
+          return;
+        }
+      }
 
       // Display webview
       progress.report({ message: 'Generating visualization...' });
       if (token.isCancellationRequested) { return; }
 
-      if (dotContent) {
-        showDotGraphWebview(context, dotContent, focusOnModule, moduleName, showUnusedModules);
+      if (graph.modules.size > 0) {
+        showDotGraphWebview(context, graph, view);
       } else {
-        vscode.window.showErrorMessage('Failed to generate dependency visualization (CLI returned no content).');
+        vscode.window.showErrorMessage('Failed to generate dependency visualization (CLI returned no modules).');
       }
 
     } catch (error) {
@@ -572,11 +1219,14 @@ async function generateDependencyGraph(context: vscode.ExtensionContext, focusOn
 
             vscode.window.showErrorMessage(
               'The project is too large to visualize in full. Try focusing on specific modules instead.',
-              'Focus on Module'
+              'Focus on Module',
+              'Show Module Metrics'
             ).then(selection => {
               if (selection === 'Focus on Module') {
                 // Trigger the focus module command
                 vscode.commands.executeCommand(FOCUS_MODULE_DEPENDENCIES);
+              } else if (selection === 'Show Module Metrics') {
+                vscode.commands.executeCommand(SHOW_MODULE_METRICS);
               }
             });
 
@@ -598,18 +1248,125 @@ async function generateDependencyGraph(context: vscode.ExtensionContext, focusOn
   });
 }
 
-// Get path to CLI, with fallback strategies
-async function findRescriptDepCLI(context: vscode.ExtensionContext): Promise<string> {
-  if (isDevelopmentMode()) {
-    // Move from VSCode extension directory to parent directory (OCaml project root)
-    const ocamlProjectRoot = path.resolve(context.extensionPath, '..');
+// Project roots of every ReScript project in the workspace folders
+async function getWorkspaceProjectRoots(): Promise<string[]> {
+  const configFiles = await detectMonorepoProjects();
+  return Array.from(new Set(configFiles.map(uri => path.dirname(uri.fsPath))));
+}
 
-    // Use _build path - directly reference compiled binary
-    return path.join(ocamlProjectRoot, '_build', 'default', 'bin', 'main.exe');
+// Run the CLI for every project and merge the results into one graph
+async function loadWorkspaceGraph(context: vscode.ExtensionContext, projectRoots: string[]): Promise<WorkspaceGraph> {
+  const cliPath = await findRescriptDepCLI(context);
+  const packages: WorkspacePackage[] = [];
+  for (const projectRoot of projectRoots) {
+    const bsDir = getBuildDir(projectRoot);
+    // Projects that have not been built yet have nothing to contribute
+    if (!fs.existsSync(bsDir)) {
+      continue;
+    }
+    packages.push({
+      name: readProjectName(projectRoot),
+      projectRoot,
+      graph: await loadDependencyGraph(cliPath, [bsDir])
+    });
   }
+  return mergePackageGraphs(packages);
+}
 
-  // 1. Try bundled CLI first
-  const bundledPath = getBundledCLIPath(context.extensionPath);
+// Show the merged graph of every project in the workspace ("Whole Workspace")
+async function generateWorkspaceGraph(
+  context: vscode.ExtensionContext,
+  progress: vscode.Progress<{ message?: string }>,
+  token: vscode.CancellationToken
+) {
+  try {
+    const projectRoots = await getWorkspaceProjectRoots();
+    progress.report({ message: `Analyzing ${projectRoots.length} projects...` });
+    const workspace = await loadWorkspaceGraph(context, projectRoots);
+    if (token.isCancellationRequested) { return; }
+
+    if (workspace.packages.length === 0) {
+      vscode.window.showWarningMessage('No built ReScript project found in the workspace. Please ensure the projects are compiled.');
+      return;
+    }
+    const unbuilt = projectRoots.length - workspace.packages.length;
+    if (unbuilt > 0) {
+      vscode.window.showWarningMessage(`${unbuilt} of ${projectRoots.length} projects have no build output and are not shown.`);
+    }
+
+    progress.report({ message: 'Generating visualization...' });
+    showDotGraphWebview(context, workspace.graph, { kind: 'workspace', workspace });
+  } catch (error) {
+    if (!token.isCancellationRequested) {
+      vscode.window.showErrorMessage(`Error generating dependency visualization: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+}
+
+// Show the workspace collapsed to one node per package
+async function generatePackageGraph(context: vscode.ExtensionContext) {
+  return vscode.window.withProgress({
+    location: vscode.ProgressLocation.Notification,
+    title: 'ReScript: Analyzing package dependencies...',
+    cancellable: true
+  }, async (progress, token) => {
+    try {
+      progress.report({ message: 'Checking workspace structure...' });
+      const projectRoots = await getWorkspaceProjectRoots();
+      if (projectRoots.length === 0) {
+        const configFileUri = await findConfigFile();
+        if (configFileUri) {
+          projectRoots.push(path.dirname(configFileUri.fsPath));
+        }
+      }
+
+      progress.report({ message: `Analyzing ${projectRoots.length} projects...` });
+      const workspace = await loadWorkspaceGraph(context, projectRoots);
+      if (token.isCancellationRequested) { return; }
+
+      if (workspace.packages.length === 0) {
+        vscode.window.showWarningMessage('No built ReScript project found in the workspace. Please ensure the projects are compiled.');
+        return;
+      }
+
+      progress.report({ message: 'Generating visualization...' });
+      const packageGraph = collapseToPackages(workspace);
+      showDotGraphWebview(context, packageGraph.graph, { kind: 'packages', workspace, packageGraph });
+    } catch (error) {
+      if (!token.isCancellationRequested) {
+        vscode.window.showErrorMessage(`Error generating package dependency visualization: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  });
+}
+
+// Get path to CLI, with fallback strategies
+async function findRescriptDepCLI(context: vscode.ExtensionContext): Promise<string> {
+  // 0. A binary configured with `bibimbob.cliPath` takes precedence
+  const configuredPath = getConfiguration().cliPath;
+  if (configuredPath) {
+    const resolvedPath = configuredPath.startsWith('~')
+      ? path.join(os.homedir(), configuredPath.slice(1))
+      : configuredPath;
+    // Bare command names are looked up on PATH by execFile
+    if (resolvedPath.includes('/') || resolvedPath.includes('\\')) {
+      if (!fs.existsSync(resolvedPath)) {
+        throw new Error(`rescriptdep CLI not found at ${resolvedPath} (set by bibimbob.cliPath)`);
+      }
+    }
+    return resolvedPath;
+  }
+
+  if (isDevelopmentMode()) {
+    // Move from VSCode extension directory to parent directory (OCaml project root)
+    const ocamlProjectRoot = path.resolve(context.extensionPath, '..');
+
+    // Use _build path - directly reference compiled binary
+    return path.join(ocamlProjectRoot, '_build', 'default', 'bin', 'main.exe');
+  }
+
+  // 1. Try bundled CLI first
+  const bundledPath = getBundledCLIPath(context.extensionPath);
 
   // Ensure execute permission if on Unix-like OS
   if (os.platform() !== 'win32' && fs.existsSync(bundledPath)) {
@@ -627,31 +1384,26 @@ async function findRescriptDepCLI(context: vscode.ExtensionContext): Promise<str
   }
 
   // 2. Try from PATH
-  try {
-    if (os.platform() === 'win32') {
-      cp.execSync('where rescriptdep', { stdio: 'ignore' });
-    } else {
-      cp.execSync('which rescriptdep', { stdio: 'ignore' });
-    }
+  if (isCLIOnPath()) {
     return 'rescriptdep';
-  } catch {
-    // 3. If not found, suggest installing
-    const choice = await vscode.window.showErrorMessage(
-      'rescriptdep CLI cannot be found. This extension requires rescriptdep to analyze dependencies.',
-      'Use bundled version (recommended)', 'Manual installation'
-    );
+  }
 
-    if (choice === 'Manual installation') {
-      vscode.env.openExternal(
-        vscode.Uri.parse('https://github.com/your-username/rescriptdep#installation')
-      );
-      throw new Error('Please install rescriptdep CLI to use this extension');
-    }
+  // 3. If not found, suggest installing
+  const choice = await vscode.window.showErrorMessage(
+    'rescriptdep CLI cannot be found. This extension requires rescriptdep to analyze dependencies.',
+    'Use bundled version (recommended)', 'Manual installation'
+  );
 
-    // Try to use bundled version even if it doesn't exist yet
-    // (This allows future-proofing when bundling is implemented)
-    return bundledPath;
+  if (choice === 'Manual installation') {
+    vscode.env.openExternal(
+      vscode.Uri.parse('https://github.com/your-username/rescriptdep#installation')
+    );
+    throw new Error('Please install rescriptdep CLI to use this extension');
   }
+
+  // Try to use bundled version even if it doesn't exist yet
+  // (This allows future-proofing when bundling is implemented)
+  return bundledPath;
 }
 
 function isDevelopmentMode(): boolean {
@@ -662,177 +1414,943 @@ function isDevelopmentMode(): boolean {
   return isDebug || isDevHostPath || devFileExists;
 }
 
-// Get path to bundled CLI based on platform
-function getBundledCLIPath(extensionPath: string): string {
-  const platform = os.platform();
-  let binaryName = 'rescriptdep';
+// Run the CLI with JSON output and parse it into a graph model
+async function loadDependencyGraph(cliPath: string, args: string[]): Promise<DependencyGraph> {
+  const output = await runRescriptDep(cliPath, ['--format=json', ...args], getConfiguration());
+  return parseDependencyGraph(output);
+}
 
-  if (platform === 'win32') {
-    binaryName += '.exe';
+// Get the graph around a module. Direct neighbors come from the CLI's `--module` output;
+// other depths and directions are cut out of the full graph.
+async function loadFocusedGraph(
+  cliPath: string,
+  buildDir: string,
+  centerModule: string,
+  focusOptions: FocusOptions
+): Promise<DependencyGraph> {
+  if (isDefaultFocus(focusOptions)) {
+    return loadDependencyGraph(cliPath, ['--module', centerModule, buildDir]);
   }
+  const graph = await loadDependencyGraph(cliPath, [buildDir]);
+  return createFocusedGraph(graph, centerModule, focusOptions);
+}
 
-  // Different paths based on platform
-  const platformDir = platform === 'win32' ? 'win32' :
-    platform === 'darwin' ? 'darwin' : 'linux';
+// Read focus options posted by the webview or saved in its state, falling back to the defaults
+function parseFocusOptions(depth: unknown, direction: unknown): FocusOptions {
+  const directions: FocusDirection[] = ['dependencies', 'dependents', 'both'];
+  return {
+    depth: depth === 'all' ? 'all'
+      : typeof depth === 'number' && Number.isInteger(depth) && depth >= 1 ? depth
+        : DEFAULT_FOCUS_OPTIONS.depth,
+    direction: directions.includes(direction as FocusDirection) ? direction as FocusDirection : DEFAULT_FOCUS_OPTIONS.direction
+  };
+}
+
+// Shortest path, or every simple path up to `bibimbob.maxPaths`, between the modules of a path query
+function findModulePaths(graph: DependencyGraph, pathQuery: PathQuery): string[][] {
+  if (pathQuery.allPaths) {
+    return findSimplePaths(graph, pathQuery.from, pathQuery.to, getConfiguration().maxPaths);
+  }
+  const shortestPath = findShortestPath(graph, pathQuery.from, pathQuery.to);
+  return shortestPath ? [shortestPath] : [];
+}
 
-  return path.join(extensionPath, 'bin', platformDir, binaryName);
+// Get the graph made of the dependency paths between two modules (empty if there is no path)
+async function loadPathGraph(
+  cliPath: string,
+  buildDir: string,
+  pathQuery: PathQuery
+): Promise<DependencyGraph> {
+  const graph = await loadDependencyGraph(cliPath, [buildDir]);
+  return createPathGraph(graph, findModulePaths(graph, pathQuery));
 }
 
-// Run CLI with arguments
-async function runRescriptDep(cliPath: string, args: string[], context?: vscode.ExtensionContext): Promise<string> {
-  // Restore the correct Promise-based implementation using cp.execFile
-  return new Promise((resolve, reject) => {
-    const command = cliPath;
-    const options: cp.ExecFileOptions = {
-      maxBuffer: 10 * 1024 * 1024, // 10MB buffer size
-      timeout: 10000, // 10 second timeout
+// Quick pick over the modules of a graph, with the preferred module (e.g. the active file) first
+async function pickModule(graph: DependencyGraph, placeHolder: string, preferred?: string, excluded?: string): Promise<string | undefined> {
+  const names = getModuleNames(graph).filter(name => name !== excluded);
+  if (preferred && names.includes(preferred)) {
+    names.splice(names.indexOf(preferred), 1);
+    names.unshift(preferred);
+  }
+  const selected = await vscode.window.showQuickPick(names.map(name => {
+    const node = graph.modules.get(name)!;
+    return {
+      label: name,
+      description: name === preferred ? 'active file' : node.external ? 'external' : undefined,
+      detail: node.path ? vscode.workspace.asRelativePath(node.path) : undefined
     };
+  }), { placeHolder, matchOnDetail: true });
+  return selected?.label;
+}
 
-    // Platform-specific CPU limiting wrapper
-    let cpuLimitedCommand = command;
-    let cpuLimitedArgs = [...args];
+// Pick two modules of a project and show the dependency paths from the first to the second.
+// Started from the graph panel, the source module is given and the panel's project is used.
+async function showPathBetweenModules(context: vscode.ExtensionContext, fromModule?: string) {
+  let projectRoot: string | undefined;
+  let activeModule: string | undefined;
+  if (fromModule) {
+    projectRoot = getViewProjectRoot(currentView);
+  } else {
+    activeModule = getCurrentModuleNameFromActiveEditor();
+    const activeFile = activeModule ? vscode.window.activeTextEditor?.document.fileName : undefined;
+    projectRoot = (activeFile ? await findWorkspaceProjectRoot(activeFile) : undefined) ?? await selectProjectRoot();
+  }
+  if (!projectRoot) {
+    return;
+  }
+  const buildDir = getBuildDir(projectRoot);
 
-    if (os.platform() !== 'win32') {
-      // On Unix systems (macOS/Linux), use 'nice' to limit CPU priority
-      cpuLimitedArgs = [command, ...args];
-      cpuLimitedCommand = 'nice';
-    }
+  let graph: DependencyGraph;
+  try {
+    graph = await vscode.window.withProgress({
+      location: vscode.ProgressLocation.Notification,
+      title: 'ReScript: Analyzing dependency graph...'
+    }, async () => loadDependencyGraph(await findRescriptDepCLI(context), [buildDir]));
+  } catch (error) {
+    vscode.window.showErrorMessage(`Error analyzing dependencies: ${error instanceof Error ? error.message : error}`);
+    return;
+  }
 
-    cp.execFile(cpuLimitedCommand, cpuLimitedArgs, options, (error, stdout, stderr) => {
-      if (error) {
-        console.error(`rescriptdep stderr: ${stderr}`);
+  const from = fromModule ?? await pickModule(graph, 'Select the module the path starts from', activeModule);
+  if (!from) {
+    return;
+  }
+  if (!graph.modules.has(from)) {
+    vscode.window.showErrorMessage(`Module ${from} was not found in the dependency graph.`);
+    return;
+  }
+  const to = await pickModule(graph, `Select the module ${from} depends on`, undefined, from);
+  if (!to) {
+    return;
+  }
+  const selectedMode = await vscode.window.showQuickPick([
+    { label: 'Shortest path', allPaths: false },
+    { label: 'All paths', description: `Up to ${getConfiguration().maxPaths} paths without repeated modules`, allPaths: true }
+  ], { placeHolder: `Paths from ${from} to ${to}` });
+  if (!selectedMode) {
+    return;
+  }
 
-        // Handle timeout error specifically
-        if (error.message.includes('timeout')) {
-          reject(new Error('The operation timed out after 10 seconds. The project may be too large to analyze.'));
-          return;
-        }
+  const pathQuery: PathQuery = { from, to, allPaths: selectedMode.allPaths };
+  const pathGraph = createPathGraph(graph, findModulePaths(graph, pathQuery));
+  if (pathGraph.modules.size === 0) {
+    vscode.window.showInformationMessage(`${from} does not depend on ${to}, directly or transitively.`);
+    return;
+  }
+  showDotGraphWebview(context, pathGraph, { kind: 'path', projectRoot, pathQuery });
+}
 
-        // Provide more specific error message for buffer exceeded case
-        if (error.message.includes('maxBuffer')) {
-          reject(new Error('The project has too many modules to visualize as a graph. This feature works best with smaller projects or when focusing on specific modules.'));
-          return;
-        }
+// Get the graph of the modules that are part of a cycle and report the cycles in the Problems panel
+async function loadCycleGraph(cliPath: string, projectRoot: string): Promise<DependencyGraph> {
+  const cycleGraph = createCycleGraph(await loadDependencyGraph(cliPath, [getBuildDir(projectRoot)]));
+  await reportCycleDiagnostics(projectRoot, cycleGraph, findCycles(cycleGraph));
+  return cycleGraph;
+}
 
-        // Include stderr in the rejection for better debugging
-        reject(new Error(`Command failed: ${command} ${args.join(' ')}\n${error.message}\nStderr: ${stderr}`));
-        return;
+// Show the modules of a project that are part of a dependency cycle, with the list of cycles in the panel
+async function showCycles(context: vscode.ExtensionContext, targetProjectRoot?: string) {
+  const projectRoot = targetProjectRoot ?? await selectProjectRoot();
+  if (!projectRoot) {
+    return;
+  }
+
+  let cycleGraph: DependencyGraph;
+  try {
+    cycleGraph = await vscode.window.withProgress({
+      location: vscode.ProgressLocation.Notification,
+      title: 'ReScript: Finding dependency cycles...'
+    }, async () => loadCycleGraph(await findRescriptDepCLI(context), projectRoot));
+  } catch (error) {
+    vscode.window.showErrorMessage(`Error finding dependency cycles: ${error instanceof Error ? error.message : error}`);
+    return;
+  }
+
+  if (cycleGraph.modules.size === 0) {
+    vscode.window.showInformationMessage(`No dependency cycles found in ${readProjectName(projectRoot)}.`);
+    return;
+  }
+  showDotGraphWebview(context, cycleGraph, { kind: 'cycles', projectRoot });
+}
+
+// Report every module of a project's cycles as a warning, at its reference to the next module of the loop.
+// The project's warnings are kept up to date after every build from then on.
+async function reportCycleDiagnostics(projectRoot: string, graph: DependencyGraph, cycles: DependencyCycle[]) {
+  cycleDiagnosticProjects.add(projectRoot);
+  const diagnosticsByFile = new Map<string, vscode.Diagnostic[]>();
+  for (const cycle of cycles) {
+    for (const name of cycle.members) {
+      const filePath = graph.modules.get(name)?.path;
+      if (!filePath || path.extname(filePath) !== '.res') {
+        continue;
       }
 
-      if (stderr) {
-        console.warn(`rescriptdep stderr: ${stderr}`);
+      const { next, message } = describeCycleMember(graph, cycle, name);
+      let text: string;
+      try {
+        text = await fs.promises.readFile(filePath, 'utf8');
+      } catch {
+        continue;
       }
-      resolve(stdout.toString());
+      const reference = next ? findModuleReference(text, next) : undefined;
+      const range = reference
+        ? new vscode.Range(reference.line, reference.character, reference.line, reference.character + reference.length)
+        : new vscode.Range(0, 0, 0, 0);
+      const diagnostic = new vscode.Diagnostic(range, message, vscode.DiagnosticSeverity.Warning);
+      diagnostic.source = 'Bibimbob';
+
+      const diagnostics = diagnosticsByFile.get(filePath) ?? [];
+      diagnostics.push(diagnostic);
+      diagnosticsByFile.set(filePath, diagnostics);
+    }
+  }
+
+  clearProjectDiagnostics(cycleDiagnostics, projectRoot);
+  for (const [filePath, diagnostics] of diagnosticsByFile) {
+    cycleDiagnostics?.set(vscode.Uri.file(filePath), diagnostics);
+  }
+}
+
+// Find the cycles again in every project whose cycles were reported, e.g. after a build
+async function refreshCycleDiagnostics(context: vscode.ExtensionContext) {
+  for (const projectRoot of cycleDiagnosticProjects) {
+    if (!fs.existsSync(getBuildDir(projectRoot))) {
+      clearProjectDiagnostics(cycleDiagnostics, projectRoot);
+      continue;
+    }
+    try {
+      const cycleGraph = createCycleGraph(await getProjectGraph(context, projectRoot));
+      await reportCycleDiagnostics(projectRoot, cycleGraph, findCycles(cycleGraph));
+    } catch (error) {
+      console.warn(`Could not find the dependency cycles of ${projectRoot}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+}
+
+// Get a project's full graph from projectGraphCache, running the CLI only when it is not cached
+function getProjectGraph(context: vscode.ExtensionContext, projectRoot: string): Promise<DependencyGraph> {
+  let graph = projectGraphCache.get(projectRoot);
+  if (!graph) {
+    graph = (async () => {
+      const buildDir = getBuildDir(projectRoot);
+      if (!fs.existsSync(buildDir)) {
+        throw new Error(`Build directory not found: ${buildDir}. Build the project to see its dependencies.`);
+      }
+      return loadDependencyGraph(await findRescriptDepCLI(context), [buildDir]);
+    })();
+    projectGraphCache.set(projectRoot, graph);
+  }
+  return graph;
+}
+
+// Module, cycle and unused module counts of a project, shown in the status bar
+async function loadProjectHealth(context: vscode.ExtensionContext, projectRoot: string): Promise<ProjectHealth> {
+  const graph = await getProjectGraph(context, projectRoot);
+  const projectModules = Array.from(graph.modules.values()).filter(node => !node.external);
+  return {
+    projectName: readProjectName(projectRoot),
+    moduleCount: projectModules.length,
+    cycleCount: findCycles(graph).length,
+    // The same modules the CLI lists with `--no-dependents`, without running it a second time
+    unusedModuleCount: projectModules.filter(node => node.dependents.length === 0).length
+  };
+}
+
+// Show the fan-in, fan-out, instability, transitive dependency count and depth of every module of a project
+async function showModuleMetrics(context: vscode.ExtensionContext) {
+  const projectRoot = await selectProjectRoot();
+  if (!projectRoot) {
+    return;
+  }
+
+  let graph: DependencyGraph;
+  try {
+    graph = await vscode.window.withProgress({
+      location: vscode.ProgressLocation.Notification,
+      title: 'ReScript: Computing module metrics...'
+    }, async () => loadDependencyGraph(await findRescriptDepCLI(context), [getBuildDir(projectRoot)]));
+  } catch (error) {
+    vscode.window.showErrorMessage(`Error computing module metrics: ${error instanceof Error ? error.message : error}`);
+    return;
+  }
+
+  showMetricsPanel(`Module Metrics (${readProjectName(projectRoot)})`, computeModuleMetrics(graph), moduleName => {
+    focusModuleInGraph(context, projectRoot, moduleName);
+  });
+}
+
+// Open the graph panel focused on a module of a project, with the current depth and direction
+async function focusModuleInGraph(context: vscode.ExtensionContext, projectRoot: string, moduleName: string) {
+  let graph: DependencyGraph;
+  try {
+    graph = await vscode.window.withProgress({
+      location: vscode.ProgressLocation.Notification,
+      title: `ReScript: Analyzing dependencies for ${moduleName}...`
+    }, async () => loadFocusedGraph(await findRescriptDepCLI(context), getBuildDir(projectRoot), moduleName, currentFocusOptions));
+  } catch (error) {
+    vscode.window.showErrorMessage(`Error analyzing module dependencies: ${error instanceof Error ? error.message : error}`);
+    return;
+  }
+
+  if (graph.modules.size === 0) {
+    vscode.window.showErrorMessage(`Module ${moduleName} was not found in the dependency graph.`);
+    return;
+  }
+  showDotGraphWebview(context, graph, { kind: 'focused', projectRoot, centerModule: moduleName });
+}
+
+// Let the user pick the git ref to compare with: the uncommitted changes, a branch or any other ref
+async function pickBaseRef(context: vscode.ExtensionContext, projectRoot: string): Promise<string | undefined> {
+  let branches: string[];
+  try {
+    branches = await listBranches(projectRoot);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Cannot read the git branches of ${readProjectName(projectRoot)}: ${error instanceof Error ? error.message : error}`);
+    return undefined;
+  }
+
+  const lastBaseRef = context.workspaceState.get<string>(CHANGE_IMPACT_BASE_REF_KEY);
+  const refs = new Set(lastBaseRef && lastBaseRef !== WORKING_TREE_REF ? [lastBaseRef, ...branches] : branches);
+  const items: (vscode.QuickPickItem & { ref?: string })[] = [
+    { label: WORKING_TREE_REF, description: 'Uncommitted changes', ref: WORKING_TREE_REF },
+    ...Array.from(refs, ref => ({ label: ref, description: ref === lastBaseRef ? 'Last used' : undefined, ref })),
+    { label: 'Other ref...', description: 'A tag, commit or any other revision' }
+  ];
+  const selected = await vscode.window.showQuickPick(items, { placeHolder: 'Show the impact of the changes since...' });
+  if (!selected) {
+    return undefined;
+  }
+
+  const baseRef = selected.ref ?? (await vscode.window.showInputBox({
+    prompt: 'Git ref to compare the working tree with',
+    placeHolder: 'origin/main, v1.2.0, a commit hash...'
+  }))?.trim();
+  if (!baseRef) {
+    return undefined;
+  }
+  await context.workspaceState.update(CHANGE_IMPACT_BASE_REF_KEY, baseRef);
+  return baseRef;
+}
+
+// Get the graph of the modules changed since a base ref and of the modules that depend on them
+async function loadImpactGraph(
+  cliPath: string,
+  projectRoot: string,
+  baseRef: string
+): Promise<{ graph: DependencyGraph; impactQuery: ImpactQuery }> {
+  const [graph, changedFiles, projectRoots] = await Promise.all([
+    loadDependencyGraph(cliPath, [getBuildDir(projectRoot)]),
+    listChangedSourceFiles(projectRoot, baseRef),
+    getWorkspaceProjectRoots()
+  ]);
+  const impact = computeChangeImpact(graph, changedFiles, projectRoot, projectRoots);
+  return { graph: createImpactGraph(graph, impact), impactQuery: { baseRef, impact } };
+}
+
+// Show the modules of the active file's project (or a picked one) changed since a git ref,
+// together with every module that depends on them
+async function showChangeImpact(context: vscode.ExtensionContext) {
+  const activeFile = getCurrentModuleNameFromActiveEditor() ? vscode.window.activeTextEditor?.document.fileName : undefined;
+  const projectRoot = (activeFile ? await findWorkspaceProjectRoot(activeFile) : undefined) ?? await selectProjectRoot();
+  if (!projectRoot) {
+    return;
+  }
+  const baseRef = await pickBaseRef(context, projectRoot);
+  if (!baseRef) {
+    return;
+  }
+
+  let result: { graph: DependencyGraph; impactQuery: ImpactQuery };
+  try {
+    result = await vscode.window.withProgress({
+      location: vscode.ProgressLocation.Notification,
+      title: 'ReScript: Finding modules affected by the changes...'
+    }, async () => loadImpactGraph(await findRescriptDepCLI(context), projectRoot, baseRef));
+  } catch (error) {
+    vscode.window.showErrorMessage(`Error computing change impact: ${error instanceof Error ? error.message : error}`);
+    return;
+  }
+
+  const { graph, impactQuery } = result;
+  if (impactQuery.impact.changed.length === 0) {
+    vscode.window.showInformationMessage(`No modules of ${readProjectName(projectRoot)} changed since ${baseRef}.`);
+    return;
+  }
+  showDotGraphWebview(context, graph, { kind: 'impact', projectRoot, impactQuery });
+  await offerImpactReport(impactQuery);
+}
+
+// Find the test modules that depend on the modules changed in the working tree of the active file's
+// project (or a picked one), then run them with `bibimbob.testCommand` or write their list to a file
+async function runAffectedTests(context: vscode.ExtensionContext) {
+  const activeFile = getCurrentModuleNameFromActiveEditor() ? vscode.window.activeTextEditor?.document.fileName : undefined;
+  const projectRoot = (activeFile ? await findWorkspaceProjectRoot(activeFile) : undefined) ?? await selectProjectRoot();
+  if (!projectRoot) {
+    return;
+  }
+  const projectName = readProjectName(projectRoot);
+
+  let result: { graph: DependencyGraph; impact: ChangeImpact; tests: string[] };
+  try {
+    result = await vscode.window.withProgress({
+      location: vscode.ProgressLocation.Notification,
+      title: 'ReScript: Finding affected tests...'
+    }, async () => {
+      const [graph, changedFiles, projectRoots] = await Promise.all([
+        loadDependencyGraph(await findRescriptDepCLI(context), [getBuildDir(projectRoot)]),
+        listChangedSourceFiles(projectRoot, WORKING_TREE_REF),
+        getWorkspaceProjectRoots()
+      ]);
+      const impact = computeChangeImpact(graph, changedFiles, projectRoot, projectRoots);
+      return { graph, impact, tests: findAffectedTests(graph, impact, getConfiguration().testModulePatterns, projectRoot) };
     });
+  } catch (error) {
+    vscode.window.showErrorMessage(`Error finding affected tests: ${error instanceof Error ? error.message : error}`);
+    return;
+  }
+
+  const { graph, impact, tests } = result;
+  if (impact.changed.length === 0) {
+    vscode.window.showInformationMessage(`No modules of ${projectName} changed in the working tree.`);
+    return;
+  }
+  if (tests.length === 0) {
+    vscode.window.showInformationMessage(`No test modules depend on the ${impact.changed.length} changed ${impact.changed.length === 1 ? 'module' : 'modules'} of ${projectName}.`);
+    return;
+  }
+
+  const selected = await vscode.window.showInformationMessage(
+    `${tests.length} affected test ${tests.length === 1 ? 'module' : 'modules'} in ${projectName}: ${tests.join(', ')}`,
+    'Run Tests',
+    'Write List to File'
+  );
+  if (selected === 'Run Tests') {
+    await runTestCommand(projectRoot, graph, tests);
+  } else if (selected === 'Write List to File') {
+    await writeTestList(projectRoot, getTestFiles(graph, tests, projectRoot));
+  }
+}
+
+// Run the configured test command for the given test modules as a task in the project root
+async function runTestCommand(projectRoot: string, graph: DependencyGraph, tests: string[]) {
+  const template = getConfiguration().testCommand;
+  if (!template) {
+    const selected = await vscode.window.showErrorMessage(
+      'Set bibimbob.testCommand to the command that runs tests, e.g. "npx rescript-test ${files}".',
+      'Open Settings'
+    );
+    if (selected === 'Open Settings') {
+      vscode.commands.executeCommand('workbench.action.openSettings', `${CONFIGURATION_SECTION}.testCommand`);
+    }
+    return;
+  }
+
+  // VS Code quotes the test files and module names for the shell the task runs in
+  const { command, args } = createTestCommand(template, graph, tests, projectRoot);
+  const shellArgs = args.map(arg => arg.isPlaceholder ? { value: arg.value, quoting: vscode.ShellQuoting.Strong } : arg.value);
+  const workspaceFolder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(projectRoot)) ?? vscode.TaskScope.Workspace;
+  const task = new vscode.Task(
+    { type: 'shell' },
+    workspaceFolder,
+    `Affected tests (${readProjectName(projectRoot)})`,
+    'bibimbob',
+    new vscode.ShellExecution(command, shellArgs, { cwd: projectRoot })
+  );
+  await vscode.tasks.executeTask(task);
+}
+
+// Save the affected test files, one per line, e.g. for a CI job to pick up
+async function writeTestList(projectRoot: string, testFiles: string[]) {
+  const targetUri = await vscode.window.showSaveDialog({
+    defaultUri: vscode.Uri.file(path.join(projectRoot, 'affected-tests.txt')),
+    filters: { 'Text': ['txt'] },
+    saveLabel: 'Write'
   });
+  if (!targetUri) {
+    return;
+  }
+  try {
+    await vscode.workspace.fs.writeFile(targetUri, Buffer.from(testFiles.join('\n') + '\n', 'utf8'));
+    vscode.window.showInformationMessage(`Wrote ${testFiles.length} affected test ${testFiles.length === 1 ? 'file' : 'files'} to ${targetUri.fsPath}.`);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Error writing the affected tests: ${error instanceof Error ? error.message : error}`);
+  }
 }
 
-// Function to display DOT format graph in webview
-function showDotGraphWebview(context: vscode.ExtensionContext, dotContent: string, isFocusedMode: boolean = false, centerModuleName?: string, isUnusedModulesMode: boolean = false) {
-  // Save current state to global variables
-  currentDotContent = dotContent;
-  currentIsFocusedMode = isFocusedMode;
-  currentCenterModule = centerModuleName;
+// Graph snapshots are kept in the workspace storage, so every workspace has its own list
+function getSnapshotStorageDir(context: vscode.ExtensionContext): string | undefined {
+  return context.storageUri ? path.join(context.storageUri.fsPath, 'graph-snapshots') : undefined;
+}
 
-  // Detect if the current theme is dark
-  const isDarkTheme = vscode.window.activeColorTheme && vscode.window.activeColorTheme.kind === vscode.ColorThemeKind.Dark;
+// Save the current graph of a project under a name, replacing an earlier snapshot with that name
+async function saveGraphSnapshot(context: vscode.ExtensionContext) {
+  const storageDir = getSnapshotStorageDir(context);
+  if (!storageDir) {
+    vscode.window.showErrorMessage('Open a folder or workspace to save graph snapshots.');
+    return;
+  }
+  const projectRoot = await selectProjectRoot();
+  if (!projectRoot) {
+    return;
+  }
+  const name = (await vscode.window.showInputBox({
+    prompt: `Name of the graph snapshot of ${readProjectName(projectRoot)}`,
+    placeHolder: 'before-refactor, v1.2.0...',
+    validateInput: value => value.trim().length === 0 ? 'Enter a name for the snapshot' : undefined
+  }))?.trim();
+  if (!name) {
+    return;
+  }
 
-  // Set appropriate graph attributes based on theme
-  const themeAttributes = isDarkTheme ?
-    'bgcolor="transparent" fontcolor="#e0e0e0"' :
-    'bgcolor="transparent" fontcolor="#333333"';
+  try {
+    const graph = await vscode.window.withProgress({
+      location: vscode.ProgressLocation.Notification,
+      title: 'ReScript: Saving graph snapshot...'
+    }, async () => loadDependencyGraph(await findRescriptDepCLI(context), [getBuildDir(projectRoot)]));
+    saveSnapshot(storageDir, createSnapshot(name, projectRoot, graph));
+    vscode.window.showInformationMessage(`Saved graph snapshot "${name}" of ${readProjectName(projectRoot)} (${graph.modules.size} modules).`);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Error saving graph snapshot: ${error instanceof Error ? error.message : error}`);
+  }
+}
 
-  // Node background color and padding settings - apply clearer colors and styles
-  const nodeStyle = isDarkTheme ?
-    'node[shape=box, fontname="sans-serif", style="filled", fillcolor="#1e1e1e", margin="0.3,0.2", color="#aaaaaa", penwidth=1]' :
-    'node[shape=box, fontname="sans-serif", style="filled", fillcolor="#f0f0f0", margin="0.3,0.2", color="#666666", penwidth=1]';
+function toSnapshotItem(snapshot: GraphSnapshot): vscode.QuickPickItem & { snapshot?: GraphSnapshot } {
+  return {
+    label: snapshot.name,
+    description: `${readProjectName(snapshot.projectRoot)} · ${new Date(snapshot.createdAt).toLocaleString()}`,
+    snapshot
+  };
+}
 
-  // Line and arrow style settings
-  const edgeStyle = isDarkTheme ?
-    'edge[color="#555555", arrowsize=0.8, arrowhead=normal, penwidth=1, minlen=1]' :
-    'edge[color="#cccccc", arrowsize=0.8, arrowhead=normal, penwidth=1, minlen=1]';
+// Get the merged graph of a snapshot and a later snapshot, or the current build without `afterId`
+async function loadSnapshotComparison(
+  context: vscode.ExtensionContext,
+  beforeId: string,
+  afterId?: string
+): Promise<{ graph: DependencyGraph; comparison: SnapshotComparison }> {
+  const snapshots = loadSnapshots(getSnapshotStorageDir(context) ?? '');
+  const findSnapshot = (id: string) => {
+    const snapshot = snapshots.find(candidate => candidate.id === id);
+    if (!snapshot) {
+      throw new Error('The graph snapshot no longer exists.');
+    }
+    return snapshot;
+  };
+  const before = findSnapshot(beforeId);
+  const after = afterId !== undefined ? findSnapshot(afterId) : undefined;
+  const afterGraph = after
+    ? readSnapshotGraph(after)
+    : await loadDependencyGraph(await findRescriptDepCLI(context), [getBuildDir(before.projectRoot)]);
+
+  const diff = diffGraphs(readSnapshotGraph(before), afterGraph);
+  return { graph: diff.graph, comparison: { before, after, diff } };
+}
 
-  // Update DOT content - apply node styles directly
-  let themedDotContent = dotContent;
+// Draw the modules and dependencies added or removed between two snapshots of a project
+async function compareSnapshots(context: vscode.ExtensionContext) {
+  const snapshots = loadSnapshots(getSnapshotStorageDir(context) ?? '');
+  if (snapshots.length === 0) {
+    const selected = await vscode.window.showInformationMessage('No graph snapshots saved in this workspace yet.', 'Save Snapshot');
+    if (selected === 'Save Snapshot') {
+      await saveGraphSnapshot(context);
+    }
+    return;
+  }
+
+  const beforeItem = await vscode.window.showQuickPick(snapshots.map(toSnapshotItem), { placeHolder: 'Select the snapshot to compare from' });
+  if (!beforeItem?.snapshot) {
+    return;
+  }
+  const before = beforeItem.snapshot;
+  const afterItem = await vscode.window.showQuickPick([
+    { label: 'Current build', description: readProjectName(before.projectRoot) },
+    ...snapshots
+      .filter(snapshot => snapshot.projectRoot === before.projectRoot && snapshot.id !== before.id)
+      .map(toSnapshotItem)
+  ], { placeHolder: `Compare "${before.name}" with...` });
+  if (!afterItem) {
+    return;
+  }
+
+  let result: { graph: DependencyGraph; comparison: SnapshotComparison };
+  try {
+    result = await vscode.window.withProgress({
+      location: vscode.ProgressLocation.Notification,
+      title: 'ReScript: Comparing graph snapshots...'
+    }, async () => loadSnapshotComparison(context, before.id, afterItem.snapshot?.id));
+  } catch (error) {
+    vscode.window.showErrorMessage(`Error comparing graph snapshots: ${error instanceof Error ? error.message : error}`);
+    return;
+  }
 
-  // Set basic properties
-  themedDotContent = themedDotContent.replace(/^(digraph\s+\w+\s*\{)/m,
-    `$1\n  ${themeAttributes}\n  ${nodeStyle}\n  ${edgeStyle}\n  splines=true\n  overlap=false\n  sep="+10"`);
+  const { addedModules, removedModules, addedEdges, removedEdges } = countChanges(result.comparison.diff);
+  if (addedModules + removedModules + addedEdges + removedEdges === 0) {
+    vscode.window.showInformationMessage(`No dependencies changed between "${before.name}" and ${afterItem.snapshot ? `"${afterItem.label}"` : 'the current build'}.`);
+    return;
+  }
+  showDotGraphWebview(context, result.graph, { kind: 'snapshots', projectRoot: before.projectRoot, comparison: result.comparison });
+  vscode.window.showInformationMessage(
+    `${addedModules} modules and ${addedEdges} dependencies added, ${removedModules} modules and ${removedEdges} dependencies removed.`
+  );
+}
 
-  // Force apply node styles - add style directly to all nodes
-  if (isDarkTheme) {
-    // Apply dark background in dark theme
-    themedDotContent = themedDotContent.replace(/\s+(\w+)\s*\[/g, ' $1 [style="filled", fillcolor="#1e1e1e", ');
+// Offer the changed and affected modules as a plain-text list, e.g. for a pull request description
+async function offerImpactReport(impactQuery: ImpactQuery) {
+  const { baseRef, impact } = impactQuery;
+  const selected = await vscode.window.showInformationMessage(
+    `${impact.changed.length} changed and ${impact.affected.length} affected ${impact.affected.length === 1 ? 'module' : 'modules'} since ${baseRef}.`,
+    'Copy Module List',
+    'Open as Text'
+  );
+  const report = formatImpactReport(impact, baseRef);
+  if (selected === 'Copy Module List') {
+    await vscode.env.clipboard.writeText(report);
+    vscode.window.showInformationMessage('Copied the changed and affected modules to the clipboard.');
+  } else if (selected === 'Open as Text') {
+    const document = await vscode.workspace.openTextDocument({ content: report, language: 'markdown' });
+    await vscode.window.showTextDocument(document);
+  }
+}
+
+// Check the dependencies of the active file's project (or a picked one) against its rules file
+async function checkDependencyRules(context: vscode.ExtensionContext) {
+  const activeFile = getCurrentModuleNameFromActiveEditor() ? vscode.window.activeTextEditor?.document.fileName : undefined;
+  const projectRoot = (activeFile ? await findWorkspaceProjectRoot(activeFile) : undefined) ?? await selectProjectRoot();
+  if (!projectRoot) {
+    return;
+  }
+
+  let violations: RuleViolation[] | undefined;
+  try {
+    violations = await vscode.window.withProgress({
+      location: vscode.ProgressLocation.Notification,
+      title: 'ReScript: Checking dependency rules...'
+    }, async () => checkProjectRules(context, projectRoot));
+  } catch (error) {
+    vscode.window.showErrorMessage(`Error checking dependency rules: ${error instanceof Error ? error.message : error}`);
+    return;
+  }
+
+  const projectName = readProjectName(projectRoot);
+  if (!violations) {
+    vscode.window.showInformationMessage(`No ${RULES_FILE_NAME} found for ${projectName}.`);
+  } else if (violations.length === 0) {
+    vscode.window.showInformationMessage(`No dependency rule violations in ${projectName}.`);
   } else {
-    // Apply light gray background in light theme
-    themedDotContent = themedDotContent.replace(/\s+(\w+)\s*\[/g, ' $1 [style="filled", fillcolor="#f0f0f0", ');
-  }
-
-  // Add center module style in focus mode
-  if (isFocusedMode && centerModuleName) {
-    // Change the style of the center module node
-    const centerNodePattern = new RegExp(`\\s+(${centerModuleName})\\s*\\[`);
-    themedDotContent = themedDotContent.replace(centerNodePattern, ` $1 [style="filled", fillcolor="lightgreen", `);
-
-    // Enhanced edge color change logic - modified to match DOT format
-    const lines = themedDotContent.split('\n');
-    const coloredLines = lines.map(line => {
-      // More accurate edge line pattern matching
-      if (line.includes('->') && !line.includes('//')) { // Edge line that's not a comment
-        const trimmed = line.trim();
-
-        // Find source -> target pattern (handling cases with and without attributes)
-        const parts = trimmed.split('->');
-        if (parts.length === 2) {
-          const source = parts[0].trim();
-          let target = parts[1].trim();
-
-          // Extract pure target name by removing semicolons or attributes
-          const targetName = target.split(/[\[\s;]/)[0].trim();
-
-          // Check if attributes already exist
-          const hasAttributes = target.includes('[');
-
-          // 1. dependents -> center (arrows coming into the center module)
-          if (targetName === centerModuleName) {
-            if (hasAttributes) {
-              // Add color to existing attributes - use darker color in dark theme
-              const arrowColor = isDarkTheme ? 'steelblue' : 'lightblue';
-              return line.replace(/\[([^\]]*)\]/, `[color="${arrowColor}", penwidth=1.5, $1]`);
-            } else {
-              // Add new attributes - use darker color in dark theme
-              const arrowColor = isDarkTheme ? 'steelblue' : 'lightblue';
-              return line.replace(/;/, ` [color="${arrowColor}", penwidth=1.5];`);
-            }
-          }
-          // 2. center -> dependencies (arrows going out from the center module)
-          else if (source === centerModuleName) {
-            if (hasAttributes) {
-              // Add color to existing attributes - use darker color in dark theme
-              const arrowColor = isDarkTheme ? 'indianred' : 'lightcoral';
-              return line.replace(/\[([^\]]*)\]/, `[color="${arrowColor}", penwidth=1.5, $1]`);
-            } else {
-              // Add new attributes - use darker color in dark theme
-              const arrowColor = isDarkTheme ? 'indianred' : 'lightcoral';
-              return line.replace(/;/, ` [color="${arrowColor}", penwidth=1.5];`);
-            }
-          }
-        }
+    const selection = await vscode.window.showWarningMessage(
+      `${violations.length} dependency rule ${violations.length === 1 ? 'violation' : 'violations'} in ${projectName}.`,
+      'Show Problems'
+    );
+    if (selection === 'Show Problems') {
+      await vscode.commands.executeCommand('workbench.actions.view.problems');
+    }
+  }
+}
+
+// Check the rules of every built project that has a rules file, reporting only in the Problems panel
+async function checkAllProjectRules(context: vscode.ExtensionContext) {
+  const projectRoots = await getWorkspaceProjectRoots();
+  if (projectRoots.length === 0) {
+    const configFile = await findConfigFile();
+    if (configFile) {
+      projectRoots.push(path.dirname(configFile.fsPath));
+    }
+  }
+  for (const projectRoot of projectRoots) {
+    if (!fs.existsSync(getBuildDir(projectRoot))) {
+      continue;
+    }
+    try {
+      await checkProjectRules(context, projectRoot);
+    } catch (error) {
+      console.warn(`Could not check the dependency rules of ${projectRoot}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+}
+
+// Check a project's dependencies against its rules file and report the violations on the importing modules.
+// Returns undefined if no rules file applies to the project; an invalid rules file is reported on the file itself.
+async function checkProjectRules(context: vscode.ExtensionContext, projectRoot: string): Promise<RuleViolation[] | undefined> {
+  const rulesFile = findRulesFile(projectRoot, getWorkspaceRootForFile(projectRoot));
+  if (!rulesFile) {
+    clearProjectDiagnostics(ruleDiagnostics, projectRoot);
+    return undefined;
+  }
+
+  let rules: DependencyRules;
+  try {
+    rules = { root: path.dirname(rulesFile), rules: parseRulesFile(await fs.promises.readFile(rulesFile, 'utf8')) };
+  } catch (error) {
+    const diagnostic = new vscode.Diagnostic(
+      new vscode.Range(0, 0, 0, 0),
+      error instanceof Error ? error.message : String(error),
+      vscode.DiagnosticSeverity.Error
+    );
+    diagnostic.source = 'Bibimbob';
+    clearProjectDiagnostics(ruleDiagnostics, projectRoot);
+    ruleDiagnostics?.set(vscode.Uri.file(rulesFile), [diagnostic]);
+    throw error;
+  }
+  ruleDiagnostics?.delete(vscode.Uri.file(rulesFile));
+
+  const graph = await getProjectGraph(context, projectRoot);
+  const violations = evaluateRules(graph, rules);
+  await reportRuleDiagnostics(projectRoot, graph, violations);
+  return violations;
+}
+
+// Report every rule violation on the importing module, at its reference to the dependency
+async function reportRuleDiagnostics(projectRoot: string, graph: DependencyGraph, violations: RuleViolation[]) {
+  const diagnosticsByFile = new Map<string, vscode.Diagnostic[]>();
+  const sources = new Map<string, string | undefined>();
+  for (const violation of violations) {
+    const filePath = graph.modules.get(violation.edge.from)?.path;
+    if (!filePath || path.extname(filePath) !== '.res') {
+      continue;
+    }
+    if (!sources.has(filePath)) {
+      sources.set(filePath, await fs.promises.readFile(filePath, 'utf8').catch(() => undefined));
+    }
+    const text = sources.get(filePath);
+    const reference = text !== undefined ? findModuleReference(text, violation.edge.to) : undefined;
+    const range = reference
+      ? new vscode.Range(reference.line, reference.character, reference.line, reference.character + reference.length)
+      : new vscode.Range(0, 0, 0, 0);
+    const diagnostic = new vscode.Diagnostic(range, describeViolation(violation), toDiagnosticSeverity(violation.rule.severity));
+    diagnostic.source = 'Bibimbob';
+
+    const diagnostics = diagnosticsByFile.get(filePath) ?? [];
+    diagnostics.push(diagnostic);
+    diagnosticsByFile.set(filePath, diagnostics);
+  }
+
+  clearProjectDiagnostics(ruleDiagnostics, projectRoot);
+  for (const [filePath, diagnostics] of diagnosticsByFile) {
+    ruleDiagnostics?.set(vscode.Uri.file(filePath), diagnostics);
+  }
+}
+
+// Remove the diagnostics of the files in a project from a collection
+function clearProjectDiagnostics(collection: vscode.DiagnosticCollection | undefined, projectRoot: string) {
+  const staleUris: vscode.Uri[] = [];
+  collection?.forEach(uri => {
+    if (uri.fsPath.startsWith(projectRoot + path.sep)) {
+      staleUris.push(uri);
+    }
+  });
+  staleUris.forEach(uri => collection?.delete(uri));
+}
+
+// Rule violations among the edges of a displayed graph, for highlighting them.
+// Problems with the rules file itself are reported by checkProjectRules.
+function findGraphRuleViolations(graph: DependencyGraph, projectRoot: string | undefined): RuleViolation[] {
+  if (!projectRoot) {
+    return [];
+  }
+  try {
+    const rules = loadRules(projectRoot, getWorkspaceRootForFile(projectRoot));
+    return rules ? evaluateRules(graph, rules) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Generate DOT source for a graph view styled for the current theme, highlighting the center module's edges in focus mode.
+// A workspace graph is drawn with one cluster per package and highlighted cross-package edges;
+// a package graph (the view's `graph` together with its import counts) gets labelled, weighted edges.
+// A path graph highlights every edge and the two modules the paths connect.
+// Edges that break a dependency rule of the view's project are highlighted in every mode.
+function generateThemedDot(graph: DependencyGraph, view: GraphView, isDarkTheme: boolean): string {
+  const centerModuleName = view.kind === 'focused' ? view.centerModule : undefined;
+  // Package nodes are not grouped into clusters
+  const workspace = view.kind === 'workspace' ? view.workspace : undefined;
+  const packageGraph = view.kind === 'packages' ? view.packageGraph : undefined;
+  const pathQuery = view.kind === 'path' ? view.pathQuery : undefined;
+  const changeImpact = view.kind === 'impact' ? view.impactQuery.impact : undefined;
+  const graphDiff = view.kind === 'snapshots' ? view.comparison.diff : undefined;
+  const ruleViolations = findGraphRuleViolations(graph, getViewProjectRoot(view));
+  const nodeFillColor = isDarkTheme ? '#1e1e1e' : '#f0f0f0';
+  const dependentsColor = isDarkTheme ? 'steelblue' : 'lightblue';
+  const dependenciesColor = isDarkTheme ? 'indianred' : 'lightcoral';
+  const crossPackageColor = isDarkTheme ? 'orange' : 'darkorange';
+  const pathColor = isDarkTheme ? 'mediumseagreen' : 'seagreen';
+  const ruleViolationColor = isDarkTheme ? '#ff5555' : 'red';
+  const changedColor = isDarkTheme ? '#7a5c00' : '#ffe08a';
+  const affectedColor = isDarkTheme ? '#1f4e79' : '#cfe3ff';
+  const addedColor = isDarkTheme ? '#4ec94e' : 'green';
+  const removedColor = isDarkTheme ? '#ff5555' : 'red';
+
+  return generateDot(graph, {
+    graphAttributes: {
+      bgcolor: 'transparent',
+      fontcolor: isDarkTheme ? '#e0e0e0' : '#333333',
+      splines: true,
+      overlap: false,
+      sep: '+10'
+    },
+    nodeDefaults: {
+      shape: 'box',
+      fontname: 'sans-serif',
+      style: 'filled',
+      fillcolor: nodeFillColor,
+      margin: '0.3,0.2',
+      color: isDarkTheme ? '#aaaaaa' : '#666666',
+      penwidth: 1
+    },
+    edgeDefaults: {
+      color: isDarkTheme ? '#555555' : '#cccccc',
+      arrowsize: 0.8,
+      arrowhead: 'normal',
+      penwidth: 1,
+      minlen: 1
+    },
+    nodeAttributes: node => {
+      if (packageGraph) {
+        const moduleCount = packageGraph.moduleCounts.get(node.name) ?? 0;
+        return { label: `${node.name}\n${moduleCount} ${moduleCount === 1 ? 'module' : 'modules'}` };
       }
-      return line;
-    });
+      if (node.name === centerModuleName) {
+        return { fillcolor: 'lightgreen' };
+      }
+      if (pathQuery && (node.name === pathQuery.from || node.name === pathQuery.to)) {
+        return { class: 'path-endpoint', color: pathColor, penwidth: 2 };
+      }
+      const moduleChange = graphDiff?.modules.get(node.name);
+      if (moduleChange === 'added') {
+        return { class: 'added-module', color: addedColor, penwidth: 2 };
+      }
+      if (moduleChange === 'removed') {
+        return { class: 'removed-module', color: removedColor, penwidth: 2, style: 'filled,dashed' };
+      }
+      if (moduleChange === 'unchanged') {
+        return { class: 'unchanged-module' };
+      }
+      if (changeImpact?.changed.includes(node.name)) {
+        return { class: 'changed-module', fillcolor: changedColor };
+      }
+      if (changeImpact?.affected.includes(node.name)) {
+        return { class: 'affected-module', fillcolor: affectedColor };
+      }
+      // Merged module ids are qualified by package; the cluster already shows the package
+      const origin = workspace?.moduleOrigins.get(node.name);
+      return origin ? { label: origin.moduleName } : undefined;
+    },
+    clusters: workspace ? Array.from(getPackageMembers(workspace), ([label, members]) => ({
+      label,
+      members,
+      attributes: {
+        style: 'rounded,dashed',
+        color: isDarkTheme ? '#777777' : '#999999',
+        fontcolor: isDarkTheme ? '#e0e0e0' : '#333333'
+      }
+    })) : undefined,
+    edgeAttributes: edge => {
+      if (packageGraph) {
+        // Thicker edges for packages that share more imports
+        const importCount = packageGraph.importCounts.get(getPackageEdgeKey(edge)) ?? 1;
+        return {
+          label: String(importCount),
+          tooltip: `${edge.from} -> ${edge.to}: ${importCount} ${importCount === 1 ? 'import' : 'imports'}`,
+          fontcolor: isDarkTheme ? '#e0e0e0' : '#333333',
+          fontsize: 10,
+          penwidth: Math.min(1 + Math.log2(importCount), 5)
+        };
+      }
+      // The classes let the webview's theme styles keep these highlights
+      const edgeChange = graphDiff?.edges.get(getEdgeKey(edge));
+      if (edgeChange === 'added') {
+        return { class: 'added-edge', color: addedColor, penwidth: 2 };
+      }
+      if (edgeChange === 'removed') {
+        return { class: 'removed-edge', color: removedColor, penwidth: 2, style: 'dashed' };
+      }
+      if (edgeChange === 'unchanged') {
+        return { class: 'unchanged-edge' };
+      }
+      const edgeViolations = ruleViolations.filter(violation => violation.edge.from === edge.from && violation.edge.to === edge.to);
+      if (edgeViolations.length > 0) {
+        return {
+          class: 'rule-violation-edge',
+          color: ruleViolationColor,
+          penwidth: 2,
+          tooltip: edgeViolations.map(describeViolation).join('\n')
+        };
+      }
+      if (workspace && isCrossPackageEdge(workspace, edge)) {
+        return { class: 'cross-package-edge', color: crossPackageColor, penwidth: 1.5 };
+      }
+      if (pathQuery) {
+        return { class: 'path-edge', color: pathColor, penwidth: 2 };
+      }
+      if (!centerModuleName) {
+        return undefined;
+      }
+      // 1. dependents -> center (arrows coming into the center module)
+      if (edge.to === centerModuleName) {
+        return { color: dependentsColor, penwidth: 1.5 };
+      }
+      // 2. center -> dependencies (arrows going out from the center module)
+      if (edge.from === centerModuleName) {
+        return { color: dependenciesColor, penwidth: 1.5 };
+      }
+      return undefined;
+    }
+  });
+}
+
+// Function to display the dependency graph in webview
+function showDotGraphWebview(context: vscode.ExtensionContext, graph: DependencyGraph, view: GraphView) {
+  // Save current state to global variables
+  currentGraph = graph;
+  currentView = view;
+  graphRefreshSerial++;
+
+  // Detect if the current theme is dark
+  const isDarkTheme = vscode.window.activeColorTheme && vscode.window.activeColorTheme.kind === vscode.ColorThemeKind.Dark;
+
+  // Generate DOT content styled for the current theme
+  const themedDotContent = generateThemedDot(graph, view, isDarkTheme);
+  currentDotContent = themedDotContent;
+
+  // Set appropriate title based on mode
+  const panelTitle = getGraphPanelTitle(view);
+
+  // Create the panel before building the HTML so local resources can be resolved through its webview
+  const isNewPanel = !currentPanel;
+  if (!currentPanel) {
+    currentPanel = vscode.window.createWebviewPanel(
+      GRAPH_PANEL_VIEW_TYPE,
+      panelTitle,
+      vscode.ViewColumn.One,
+      {
+        ...getGraphWebviewOptions(context),
+        // Keep zoom, pan and search state while the panel is in a background tab
+        retainContextWhenHidden: true
+      }
+    );
+
+    attachPanelHandlers(context, currentPanel);
+  }
 
-    themedDotContent = coloredLines.join('\n');
+  if (getPanelBuildDirs().length > 0) {
+    watchGraphBuildOutput(context, getPanelBuildDirs());
   }
 
+  // Viz.js is bundled into media/ at build time, so the graph renders without network access
+  const webview = currentPanel.webview;
+  const vizScriptUri = webview.asWebviewUri(
+    vscode.Uri.file(path.join(context.extensionPath, 'media', 'viz-standalone.js'))
+  );
+  const nonce = getNonce();
+
   // Create HTML content without embedding the data directly
   const htmlContent = `<!DOCTYPE html>
 <html lang="en">
 <head>
     <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src ${webview.cspSource} data:; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}' 'wasm-unsafe-eval';">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
     <title>ReScript Dependency Graph</title>
-    <script src="https://cdn.jsdelivr.net/npm/@viz-js/viz@3.12.0/lib/viz-standalone.min.js"></script>
+    <script nonce="${nonce}" src="${vizScriptUri}"></script>
     <style>
         /* Only keep basic styles */
         body {
@@ -970,6 +2488,31 @@ function showDotGraphWebview(context: vscode.ExtensionContext, dotContent: strin
             background-color: var(--vscode-button-hoverBackground);
         }
         
+        .export-button {
+            margin-left: 5px;
+        }
+        
+        /* Focus depth and direction controls */
+        .focus-controls {
+            display: flex;
+            align-items: center;
+            gap: 5px;
+            margin-right: 15px;
+        }
+        
+        .focus-controls input[type="number"] {
+            width: 48px;
+        }
+        
+        .focus-controls select,
+        .focus-controls input[type="number"] {
+            padding: 3px 4px;
+            border-radius: 4px;
+            border: 1px solid var(--vscode-input-border);
+            background-color: var(--vscode-input-background);
+            color: var(--vscode-input-foreground);
+        }
+        
         .search-message {
             position: absolute;
             top: 100%;
@@ -1036,6 +2579,196 @@ function showDotGraphWebview(context: vscode.ExtensionContext, dotContent: strin
             stroke: var(--dependencies-color, lightcoral) !important;
         }
         
+        /* Edges highlighted in the DOT source (cross-package dependencies, dependency paths) */
+        body.vscode-dark .edge.cross-package-edge path,
+        body.vscode-light .edge.cross-package-edge path {
+            stroke: var(--cross-package-color, darkorange) !important;
+        }
+        
+        body.vscode-dark .edge.cross-package-edge polygon,
+        body.vscode-light .edge.cross-package-edge polygon {
+            fill: var(--cross-package-color, darkorange) !important;
+            stroke: var(--cross-package-color, darkorange) !important;
+        }
+        
+        body.vscode-dark .edge.path-edge path,
+        body.vscode-light .edge.path-edge path {
+            stroke: var(--path-color, seagreen) !important;
+            stroke-width: 2px;
+        }
+        
+        body.vscode-dark .edge.path-edge polygon,
+        body.vscode-light .edge.path-edge polygon {
+            fill: var(--path-color, seagreen) !important;
+            stroke: var(--path-color, seagreen) !important;
+        }
+        
+        body.vscode-dark svg .node.path-endpoint polygon,
+        body.vscode-light svg .node.path-endpoint polygon {
+            stroke: var(--path-color, seagreen) !important;
+            stroke-width: 2px;
+        }
+        
+        /* Edges closing the loop of the selected cycle */
+        body.vscode-dark .edge.cycle-closing-edge path,
+        body.vscode-light .edge.cycle-closing-edge path {
+            stroke: var(--cycle-color, crimson) !important;
+            stroke-width: 2.5px;
+            stroke-dasharray: 6 3;
+        }
+        
+        body.vscode-dark .edge.cycle-closing-edge polygon,
+        body.vscode-light .edge.cycle-closing-edge polygon {
+            fill: var(--cycle-color, crimson) !important;
+            stroke: var(--cycle-color, crimson) !important;
+        }
+        
+        /* Dependencies that break a rule of the .bibimbob.json file */
+        body.vscode-dark .edge.rule-violation-edge path,
+        body.vscode-light .edge.rule-violation-edge path {
+            stroke: var(--rule-violation-color, red) !important;
+            stroke-width: 2px;
+        }
+        
+        body.vscode-dark .edge.rule-violation-edge polygon,
+        body.vscode-light .edge.rule-violation-edge polygon {
+            fill: var(--rule-violation-color, red) !important;
+            stroke: var(--rule-violation-color, red) !important;
+        }
+        
+        /* Modules changed since the base ref, and the modules that depend on them */
+        body.vscode-dark svg .node.changed-module polygon,
+        body.vscode-light svg .node.changed-module polygon {
+            fill: var(--changed-color, #ffe08a) !important;
+        }
+        
+        body.vscode-dark svg .node.affected-module polygon,
+        body.vscode-light svg .node.affected-module polygon {
+            fill: var(--affected-color, #cfe3ff) !important;
+        }
+        
+        /* Graph snapshot comparison: added and removed parts, with the unchanged ones dimmed */
+        body.vscode-dark svg .node.added-module polygon,
+        body.vscode-light svg .node.added-module polygon {
+            stroke: var(--added-color, green) !important;
+            stroke-width: 2px;
+        }
+        
+        body.vscode-dark svg .node.removed-module polygon,
+        body.vscode-light svg .node.removed-module polygon {
+            stroke: var(--removed-color, red) !important;
+            stroke-width: 2px;
+            stroke-dasharray: 6 3;
+        }
+        
+        body.vscode-dark .edge.added-edge path,
+        body.vscode-light .edge.added-edge path {
+            stroke: var(--added-color, green) !important;
+            stroke-width: 2px;
+        }
+        
+        body.vscode-dark .edge.added-edge polygon,
+        body.vscode-light .edge.added-edge polygon {
+            fill: var(--added-color, green) !important;
+            stroke: var(--added-color, green) !important;
+        }
+        
+        body.vscode-dark .edge.removed-edge path,
+        body.vscode-light .edge.removed-edge path {
+            stroke: var(--removed-color, red) !important;
+            stroke-width: 2px;
+            stroke-dasharray: 6 3;
+        }
+        
+        body.vscode-dark .edge.removed-edge polygon,
+        body.vscode-light .edge.removed-edge polygon {
+            fill: var(--removed-color, red) !important;
+            stroke: var(--removed-color, red) !important;
+        }
+        
+        svg .node.unchanged-module,
+        svg .edge.unchanged-edge {
+            opacity: 0.35;
+        }
+        
+        /* List of the cycles in the graph */
+        .cycles-panel {
+            position: absolute;
+            top: 10px;
+            right: 10px;
+            z-index: 20;
+            max-width: 40%;
+            max-height: 60%;
+            display: flex;
+            flex-direction: column;
+            border-radius: 4px;
+            border: 1px solid var(--vscode-widget-border, var(--vscode-editorWidget-border, transparent));
+            background-color: var(--vscode-editorWidget-background, var(--vscode-editor-background));
+            font-size: 12px;
+        }
+        
+        .cycles-header {
+            padding: 6px 10px;
+            font-weight: bold;
+            cursor: pointer;
+        }
+        
+        .cycles-list {
+            list-style: none;
+            margin: 0;
+            padding: 0 0 4px 0;
+            overflow-y: auto;
+        }
+        
+        .cycles-panel.collapsed .cycles-list {
+            display: none;
+        }
+        
+        .cycles-list li {
+            padding: 3px 10px;
+            cursor: pointer;
+            white-space: nowrap;
+            overflow: hidden;
+            text-overflow: ellipsis;
+        }
+        
+        .cycles-list li:hover {
+            background-color: var(--vscode-list-hoverBackground);
+        }
+        
+        .cycles-list li.selected {
+            background-color: var(--vscode-list-activeSelectionBackground);
+            color: var(--vscode-list-activeSelectionForeground);
+        }
+        
+        /* Context menu of a graph node */
+        .node-menu {
+            position: fixed;
+            display: none;
+            z-index: 200;
+            min-width: 120px;
+            padding: 4px 0;
+            border-radius: 4px;
+            border: 1px solid var(--vscode-menu-border, var(--vscode-widget-border, transparent));
+            background-color: var(--vscode-menu-background, var(--vscode-editorWidget-background));
+            color: var(--vscode-menu-foreground, var(--vscode-editor-foreground));
+            box-shadow: 0 2px 8px var(--vscode-widget-shadow, rgba(0, 0, 0, 0.3));
+        }
+        
+        .node-menu.visible {
+            display: block;
+        }
+        
+        .node-menu-item {
+            padding: 4px 12px;
+            cursor: pointer;
+        }
+        
+        .node-menu-item:hover {
+            background-color: var(--vscode-menu-selectionBackground, var(--vscode-list-hoverBackground));
+            color: var(--vscode-menu-selectionForeground, inherit);
+        }
+        
         /* Error message container */
         #error-container {
             position: absolute;
@@ -1124,14 +2857,63 @@ function showDotGraphWebview(context: vscode.ExtensionContext, dotContent: strin
                 <div class="legend-line" style="background-color: var(--unused-color, #ff6666);"></div>
                 <span>Modules with no dependents (unused modules)</span>
             </div>
+            <div class="legend-item" id="cross-package-legend" style="display: none;">
+                <div class="legend-line" style="background-color: var(--cross-package-color, darkorange);"></div>
+                <span>Dependencies between packages</span>
+            </div>
+            <div class="legend-item" id="path-legend" style="display: none;">
+                <div class="legend-line" style="background-color: var(--path-color, seagreen);"></div>
+                <span id="path-legend-text">Dependency path</span>
+            </div>
+            <div class="legend-item" id="rule-violation-legend" style="display: none;">
+                <div class="legend-line" style="background-color: var(--rule-violation-color, red);"></div>
+                <span>Dependencies that break a rule (hover an edge for details)</span>
+            </div>
+            <div class="legend-item" id="changed-legend" style="display: none;">
+                <div class="legend-line" style="background-color: var(--changed-color, #ffe08a);"></div>
+                <span id="changed-legend-text">Changed modules</span>
+            </div>
+            <div class="legend-item" id="affected-legend" style="display: none;">
+                <div class="legend-line" style="background-color: var(--affected-color, #cfe3ff);"></div>
+                <span>Affected modules (depend on a changed module)</span>
+            </div>
+            <div class="legend-item" id="added-legend" style="display: none;">
+                <div class="legend-line" style="background-color: var(--added-color, green);"></div>
+                <span>Added modules and dependencies</span>
+            </div>
+            <div class="legend-item" id="removed-legend" style="display: none;">
+                <div class="legend-line" style="background-color: var(--removed-color, red);"></div>
+                <span>Removed modules and dependencies (unchanged ones are dimmed)</span>
+            </div>
+            <div class="legend-item" id="package-legend" style="display: none;">
+                <span>Edge labels count the module imports between packages. Click a package to see its modules.</span>
+            </div>
         </div>
         <div class="search-container">
+            <div class="focus-controls" id="focus-controls" style="display: none;">
+                <label for="focus-depth">Depth</label>
+                <input type="number" id="focus-depth" min="1" value="1" title="Number of levels to follow from the center module" />
+                <label><input type="checkbox" id="focus-depth-all" /> All</label>
+                <select id="focus-direction" title="Which side of the center module to follow">
+                    <option value="both">Dependencies and dependents</option>
+                    <option value="dependencies">Dependencies only</option>
+                    <option value="dependents">Dependents only</option>
+                </select>
+            </div>
             <input type="text" class="search-input" id="module-search" placeholder="Search for module..." />
             <button class="search-button" id="search-button">Search</button>
             <div class="search-message" id="search-message">Module not found</div>
+            <button class="search-button export-button" id="export-button" title="Export graph as SVG, PNG, DOT or JSON">Export</button>
         </div>
     </div>
+    <div class="node-menu" id="node-menu">
+        <div class="node-menu-item" id="node-menu-path">Path to…</div>
+    </div>
     <div id="graph-container">
+        <div class="cycles-panel collapsed" id="cycles-panel" style="display: none;">
+            <div class="cycles-header" id="cycles-header" title="Click to show or hide the cycles">Cycles (<span id="cycles-count">0</span>)</div>
+            <ul class="cycles-list" id="cycles-list"></ul>
+        </div>
         <div id="graph"></div>
         <div id="error-container">
             <div id="error-message"></div>
@@ -1139,7 +2921,7 @@ function showDotGraphWebview(context: vscode.ExtensionContext, dotContent: strin
         </div>
     </div>
 
-    <script>
+    <script nonce="${nonce}">
         const vscode = acquireVsCodeApi();
         let svgElement;
         // Zoom-related variables
@@ -1158,7 +2940,24 @@ function showDotGraphWebview(context: vscode.ExtensionContext, dotContent: strin
         let dotSrc = '';
         let isFocusedMode = false;
         let centerModule = null;
+        // Depth (a number or 'all') and direction of the focused graph
+        let focusDepth = 1;
+        let focusDirection = 'both';
         let isUnusedModulesMode = false;
+        // Source and target module of a path graph
+        let pathQuery = null;
+        // Cycles of the shown graph ({ members, loop, closingEdges }), in the order of its cycle clusters
+        let cycles = [];
+        let isCyclesMode = false;
+        // Git ref the changed modules of a change impact graph are compared with
+        let impactBaseRef = null;
+        // Ids of the compared graph snapshots ({ beforeId, afterId }); no afterId for the current build
+        let snapshotComparison = null;
+        let projectRoot = null;
+        // Every project of a "Whole Workspace" graph
+        let projectRoots = null;
+        let isWorkspaceMode = false;
+        let isPackageMode = false;
         let allModuleNodes = []; // Store all available module names
         
         // Theme-related variables - detect theme from body class during initialization
@@ -1168,6 +2967,14 @@ function showDotGraphWebview(context: vscode.ExtensionContext, dotContent: strin
         document.documentElement.style.setProperty('--dependents-color', isDarkTheme ? 'steelblue' : 'lightblue');
         document.documentElement.style.setProperty('--dependencies-color', isDarkTheme ? 'indianred' : 'lightcoral');
         document.documentElement.style.setProperty('--unused-color', '#ff6666');
+        document.documentElement.style.setProperty('--cross-package-color', isDarkTheme ? 'orange' : 'darkorange');
+        document.documentElement.style.setProperty('--path-color', isDarkTheme ? 'mediumseagreen' : 'seagreen');
+        document.documentElement.style.setProperty('--cycle-color', isDarkTheme ? 'tomato' : 'crimson');
+        document.documentElement.style.setProperty('--rule-violation-color', isDarkTheme ? '#ff5555' : 'red');
+        document.documentElement.style.setProperty('--changed-color', isDarkTheme ? '#7a5c00' : '#ffe08a');
+        document.documentElement.style.setProperty('--affected-color', isDarkTheme ? '#1f4e79' : '#cfe3ff');
+        document.documentElement.style.setProperty('--added-color', isDarkTheme ? '#4ec94e' : 'green');
+        document.documentElement.style.setProperty('--removed-color', isDarkTheme ? '#ff5555' : 'red');
         
         // Function to update SVG styles to match the theme
         function updateSvgStylesForTheme(svg, isDark) {
@@ -1305,7 +3112,8 @@ function showDotGraphWebview(context: vscode.ExtensionContext, dotContent: strin
         }
         
         // Function to render the DOT data - only called after we receive data
-        function renderGraph() {
+        // preservedView: { viewBox, zoom } to keep instead of fitting the graph to the container
+        function renderGraph(preservedView) {
             if (!dotSrc) {
                 console.log('No DOT data yet');
                 return;
@@ -1318,6 +3126,14 @@ function showDotGraphWebview(context: vscode.ExtensionContext, dotContent: strin
             document.documentElement.style.setProperty('--dependents-color', isDarkTheme ? 'steelblue' : 'lightblue');
             document.documentElement.style.setProperty('--dependencies-color', isDarkTheme ? 'indianred' : 'lightcoral');
             document.documentElement.style.setProperty('--unused-color', '#ff6666');
+            document.documentElement.style.setProperty('--cross-package-color', isDarkTheme ? 'orange' : 'darkorange');
+            document.documentElement.style.setProperty('--path-color', isDarkTheme ? 'mediumseagreen' : 'seagreen');
+            document.documentElement.style.setProperty('--cycle-color', isDarkTheme ? 'tomato' : 'crimson');
+            document.documentElement.style.setProperty('--rule-violation-color', isDarkTheme ? '#ff5555' : 'red');
+            document.documentElement.style.setProperty('--changed-color', isDarkTheme ? '#7a5c00' : '#ffe08a');
+            document.documentElement.style.setProperty('--affected-color', isDarkTheme ? '#1f4e79' : '#cfe3ff');
+            document.documentElement.style.setProperty('--added-color', isDarkTheme ? '#4ec94e' : 'green');
+            document.documentElement.style.setProperty('--removed-color', isDarkTheme ? '#ff5555' : 'red');
             
             // Directly set body background color
             document.body.style.backgroundColor = isDarkTheme ? '#1e1e1e' : '#ffffff';
@@ -1358,6 +3174,12 @@ function showDotGraphWebview(context: vscode.ExtensionContext, dotContent: strin
                 svgElement.style.webkitUserSelect = 'none';
                 svgElement.style.msUserSelect = 'none';
                 
+                // Show the rule legend when the graph has edges that break a dependency rule
+                const ruleViolationLegend = document.getElementById('rule-violation-legend');
+                if (ruleViolationLegend) {
+                    ruleViolationLegend.style.display = svgElement.querySelector('.edge.rule-violation-edge') ? 'flex' : 'none';
+                }
+                
                 // Collect all module names for search functionality
                 allModuleNodes = [];
                 const nodes = svgElement.querySelectorAll('.node');
@@ -1588,14 +3410,18 @@ function showDotGraphWebview(context: vscode.ExtensionContext, dotContent: strin
                 // Add click handlers to nodes
                 setupNodeClickHandlers();
                 
-                // Setup dragging
+                // Start dragging from the new SVG
                 setupDragHandlers();
                 
                 // Adjust initial view to fit screen
                 fitGraphToContainer();
                 
-                // Set up scroll zoom
-                setupScrollZoom();
+                // Keep the user's zoom and pan when the graph is refreshed in place
+                if (preservedView) {
+                    viewBox = { ...preservedView.viewBox };
+                    currentZoom = preservedView.zoom;
+                    updateViewBox();
+                }
               } catch (error) {
                 showErrorMessage(error);
               }
@@ -1638,6 +3464,139 @@ function showDotGraphWebview(context: vscode.ExtensionContext, dotContent: strin
                         });
                     });
                 }
+                
+                // Paths are looked up within a single project
+                if (!isWorkspaceMode && !isPackageMode) {
+                    node.addEventListener('contextmenu', (e) => {
+                        e.preventDefault();
+                        e.stopPropagation();
+                        showNodeMenu(moduleName, e.clientX, e.clientY);
+                    });
+                }
+            });
+        }
+        
+        // Fill the cycle list; the cycles command opens it, other graphs show it collapsed
+        function updateCyclesPanel() {
+            const cyclesPanel = document.getElementById('cycles-panel');
+            const cyclesCount = document.getElementById('cycles-count');
+            const cyclesList = document.getElementById('cycles-list');
+            if (!cyclesPanel || !cyclesCount || !cyclesList) return;
+            
+            cyclesPanel.style.display = cycles.length > 0 ? 'flex' : 'none';
+            cyclesPanel.classList.toggle('collapsed', !isCyclesMode);
+            cyclesCount.textContent = String(cycles.length);
+            while (cyclesList.firstChild) {
+                cyclesList.removeChild(cyclesList.firstChild);
+            }
+            
+            cycles.forEach((cycle, index) => {
+                const item = document.createElement('li');
+                const others = cycle.members.length - (cycle.loop.length - 1);
+                item.textContent = cycle.loop.join(' → ') + (others > 0 ? ' (+' + others + ' more)' : '');
+                item.title = cycle.members.join(', ');
+                item.addEventListener('click', () => selectCycle(index));
+                cyclesList.appendChild(item);
+            });
+        }
+        
+        // Zoom to a cycle's cluster and highlight the edges that close its loops
+        function selectCycle(index) {
+            if (!svgElement) return;
+            const cycle = cycles[index];
+            
+            const items = document.querySelectorAll('#cycles-list li');
+            items.forEach((item, itemIndex) => item.classList.toggle('selected', itemIndex === index));
+            
+            const closingEdges = new Set(cycle.closingEdges.map(edge => edge.from + '->' + edge.to));
+            svgElement.querySelectorAll('.edge').forEach(edge => {
+                const titleEl = edge.querySelector('title');
+                const isClosing = titleEl && titleEl.textContent && closingEdges.has(titleEl.textContent.trim());
+                edge.classList.toggle('cycle-closing-edge', Boolean(isClosing));
+            });
+            
+            const cluster = Array.from(svgElement.querySelectorAll('.cluster')).find(element => {
+                const titleEl = element.querySelector('title');
+                return titleEl && titleEl.textContent === 'cluster_' + index;
+            });
+            if (cluster) {
+                zoomToElement(cluster);
+            }
+        }
+        
+        // Animate the view to an element's bounding box, with some padding
+        function zoomToElement(element) {
+            const matrix = svgElement.getScreenCTM();
+            if (!matrix) return;
+            const inverse = matrix.inverse();
+            const rect = element.getBoundingClientRect();
+            const topLeft = new DOMPoint(rect.left, rect.top).matrixTransform(inverse);
+            const bottomRight = new DOMPoint(rect.right, rect.bottom).matrixTransform(inverse);
+            
+            const width = (bottomRight.x - topLeft.x) * 1.5;
+            const height = (bottomRight.y - topLeft.y) * 1.5;
+            const targetViewBox = {
+                x: (topLeft.x + bottomRight.x) / 2 - width / 2,
+                y: (topLeft.y + bottomRight.y) / 2 - height / 2,
+                width: width,
+                height: height
+            };
+            currentZoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, currentZoom * viewBox.width / width));
+            animateViewBox(targetViewBox);
+        }
+        
+        function setupCyclesPanel() {
+            const cyclesPanel = document.getElementById('cycles-panel');
+            const cyclesHeader = document.getElementById('cycles-header');
+            if (!cyclesPanel || !cyclesHeader) return;
+            
+            cyclesHeader.addEventListener('click', () => {
+                cyclesPanel.classList.toggle('collapsed');
+            });
+            // Keep scrolling and clicks in the list from zooming or dragging the graph
+            cyclesPanel.addEventListener('wheel', (e) => e.stopPropagation());
+            cyclesPanel.addEventListener('mousedown', (e) => e.stopPropagation());
+            cyclesPanel.addEventListener('dblclick', (e) => e.stopPropagation());
+        }
+        
+        // Module whose context menu is open
+        let nodeMenuModule = null;
+        
+        function showNodeMenu(moduleName, x, y) {
+            const nodeMenu = document.getElementById('node-menu');
+            if (!nodeMenu) return;
+            nodeMenuModule = moduleName;
+            nodeMenu.style.left = x + 'px';
+            nodeMenu.style.top = y + 'px';
+            nodeMenu.classList.add('visible');
+        }
+        
+        function hideNodeMenu() {
+            const nodeMenu = document.getElementById('node-menu');
+            if (nodeMenu) {
+                nodeMenu.classList.remove('visible');
+            }
+            nodeMenuModule = null;
+        }
+        
+        function setupNodeMenu() {
+            const pathItem = document.getElementById('node-menu-path');
+            if (pathItem) {
+                pathItem.addEventListener('click', (e) => {
+                    e.stopPropagation();
+                    const moduleName = nodeMenuModule;
+                    hideNodeMenu();
+                    if (moduleName) {
+                        // The extension asks for the target module and draws the paths
+                        vscode.postMessage({ command: 'showPathFrom', moduleName: moduleName });
+                    }
+                });
+            }
+            document.addEventListener('click', hideNodeMenu);
+            document.addEventListener('keydown', (e) => {
+                if (e.key === 'Escape') {
+                    hideNodeMenu();
+                }
             });
         }
         
@@ -1645,15 +3604,35 @@ function showDotGraphWebview(context: vscode.ExtensionContext, dotContent: strin
             if (!svgElement) return;
             svgElement.setAttribute('viewBox', 
                 viewBox.x + " " + viewBox.y + " " + viewBox.width + " " + viewBox.height);
+            saveViewState();
+        }
+        
+        // Persist the view so VS Code can restore the panel after a reload
+        function saveViewState() {
+            const searchInput = document.getElementById('module-search');
+            vscode.setState({
+                projectRoot: projectRoot,
+                projectRoots: projectRoots,
+                isPackageMode: isPackageMode,
+                isFocusedMode: isFocusedMode,
+                centerModule: centerModule,
+                focusDepth: focusDepth,
+                focusDirection: focusDirection,
+                isUnusedModulesMode: isUnusedModulesMode,
+                pathQuery: pathQuery,
+                isCyclesMode: isCyclesMode,
+                impactBaseRef: impactBaseRef,
+                snapshotComparison: snapshotComparison,
+                viewBox: viewBox,
+                zoom: currentZoom,
+                searchText: searchInput ? searchInput.value : ''
+            });
         }
         
+        // Each render replaces the SVG element, so only its mousedown listener is added per render
         function setupDragHandlers() {
             if (!svgElement) return;
             
-            let isDragging = false;
-            let lastX = 0;
-            let lastY = 0;
-            
             // Mouse down - start dragging
             svgElement.addEventListener('mousedown', (e) => {
                 e.preventDefault(); // Prevent text selection
@@ -1663,9 +3642,15 @@ function showDotGraphWebview(context: vscode.ExtensionContext, dotContent: strin
                 svgElement.style.cursor = 'grabbing';
             });
             
+            // Initial cursor style
+            svgElement.style.cursor = 'grab';
+        }
+        
+        // Registered once; the listeners act on the SVG element of the latest render
+        function setupPanHandlers() {
             // Mouse move - during dragging
             document.addEventListener('mousemove', (e) => {
-                if (!isDragging) return;
+                if (!isDragging || !svgElement) return;
                 
                 const dx = e.clientX - lastX;
                 const dy = e.clientY - lastY;
@@ -1690,26 +3675,26 @@ function showDotGraphWebview(context: vscode.ExtensionContext, dotContent: strin
                 updateViewBox();
             });
             
-            // Mouse up - end dragging
-            document.addEventListener('mouseup', () => {
+            const endDragging = () => {
                 isDragging = false;
-                svgElement.style.cursor = 'grab';
-            });
+                if (svgElement) {
+                    svgElement.style.cursor = 'grab';
+                }
+            };
             
-            // End dragging if mouse leaves SVG area
-            document.addEventListener('mouseleave', () => {
-                isDragging = false;
-                svgElement.style.cursor = 'grab';
-            });
+            // Mouse up - end dragging
+            document.addEventListener('mouseup', endDragging);
             
-            // Initial cursor style
-            svgElement.style.cursor = 'grab';
+            // End dragging if mouse leaves SVG area
+            document.addEventListener('mouseleave', endDragging);
         }
         
+        // Registered once, like the pan handlers
         function setupScrollZoom() {
             // Mouse wheel event
             document.getElementById('graph-container').addEventListener('wheel', (e) => {
                 e.preventDefault();
+                if (!svgElement) return;
                 
                 // Get mouse position
                 const svgRect = svgElement.getBoundingClientRect();
@@ -1732,6 +3717,7 @@ function showDotGraphWebview(context: vscode.ExtensionContext, dotContent: strin
             // Double-click to zoom in
             document.getElementById('graph-container').addEventListener('dblclick', (e) => {
                 e.preventDefault(); // Prevent text selection
+                if (!svgElement) return;
                 // Get mouse position
                 const svgRect = svgElement.getBoundingClientRect();
                 const mouseX = e.clientX - svgRect.left;
@@ -2002,6 +3988,7 @@ function showDotGraphWebview(context: vscode.ExtensionContext, dotContent: strin
             
             // Clear error state when typing in search field
             searchInput.addEventListener('input', () => {
+                saveViewState();
                 searchInput.classList.remove('not-found');
                 const searchMessage = document.getElementById('search-message');
                 if (searchMessage) {
@@ -2073,25 +4060,66 @@ function showDotGraphWebview(context: vscode.ExtensionContext, dotContent: strin
                 dotSrc = message.dotContent;
                 isFocusedMode = message.isFocusedMode;
                 centerModule = message.centerModule;
+                focusDepth = message.focusDepth || 1;
+                focusDirection = message.focusDirection || 'both';
                 isUnusedModulesMode = message.isUnusedModulesMode || false;
+                pathQuery = message.pathQuery || null;
+                cycles = message.cycles || [];
+                isCyclesMode = message.isCyclesMode || false;
+                impactBaseRef = message.impactBaseRef || null;
+                snapshotComparison = message.snapshotComparison || null;
+                isWorkspaceMode = message.isWorkspaceMode || false;
+                isPackageMode = message.isPackageMode || false;
+                projectRoot = message.projectRoot || null;
+                projectRoots = message.projectRoots || null;
                 
-                // Update legend display based on mode
+                // Update legend, focus controls and cycle list based on mode
                 updateLegendDisplay();
+                updateFocusControls();
+                updateCyclesPanel();
+                
+                // A panel revived after a reload gets back its saved zoom, pan and search text
+                const savedState = message.restoreView ? vscode.getState() : undefined;
+                const searchInput = document.getElementById('module-search');
+                if (savedState && savedState.searchText && searchInput) {
+                    searchInput.value = savedState.searchText;
+                }
                 
                 // Now that we have data, render the graph
-                renderGraph();
-                
-                // Setup search after graph is rendered
-                setupSearchFunctionality();
+                if (savedState && savedState.viewBox) {
+                    renderGraph({ viewBox: savedState.viewBox, zoom: savedState.zoom || 1 });
+                } else {
+                    renderGraph();
+                }
             } else if (message.command === 'updateGraph') {
                 // Update graph with new data
                 dotSrc = message.dotContent;
                 isFocusedMode = message.isFocusedMode;
                 centerModule = message.centerModule;
+                focusDepth = message.focusDepth || 1;
+                focusDirection = message.focusDirection || 'both';
                 isUnusedModulesMode = message.isUnusedModulesMode || false;
+                pathQuery = message.pathQuery || null;
+                cycles = message.cycles || [];
+                isCyclesMode = message.isCyclesMode || false;
+                impactBaseRef = message.impactBaseRef || null;
+                snapshotComparison = message.snapshotComparison || null;
+                isWorkspaceMode = message.isWorkspaceMode || false;
+                isPackageMode = message.isPackageMode || false;
+                const hasProjectRoots = isWorkspaceMode || isPackageMode;
+                projectRoot = message.projectRoot || (hasProjectRoots ? null : projectRoot);
+                projectRoots = hasProjectRoots ? (message.projectRoots || projectRoots) : null;
                 
-                // Update legend display based on mode
+                // Update legend, focus controls and cycle list based on mode
                 updateLegendDisplay();
+                updateFocusControls();
+                updateCyclesPanel();
+                
+                // Refreshes after a rebuild keep the current zoom, pan and search text
+                if (message.preserveView && svgElement) {
+                    renderGraph({ viewBox: { ...viewBox }, zoom: currentZoom });
+                    return;
+                }
                 
                 // Clear search input when graph is redrawn
                 const searchInput = document.getElementById('module-search');
@@ -2108,9 +4136,6 @@ function showDotGraphWebview(context: vscode.ExtensionContext, dotContent: strin
                 
                 // Re-render with new data
                 renderGraph();
-                
-                // Refresh search setup
-                setupSearchFunctionality();
             } else if (message.command === 'updateTheme') {
                 // Refresh page instead of applying theme to graph
                 dotSrc = message.dotContent;
@@ -2126,6 +4151,14 @@ function showDotGraphWebview(context: vscode.ExtensionContext, dotContent: strin
                 document.documentElement.style.setProperty('--dependencies-color', 
                     isDarkTheme ? 'indianred' : 'lightcoral');
                 document.documentElement.style.setProperty('--unused-color', '#ff6666');
+                document.documentElement.style.setProperty('--cross-package-color', isDarkTheme ? 'orange' : 'darkorange');
+                document.documentElement.style.setProperty('--path-color', isDarkTheme ? 'mediumseagreen' : 'seagreen');
+                document.documentElement.style.setProperty('--cycle-color', isDarkTheme ? 'tomato' : 'crimson');
+                document.documentElement.style.setProperty('--rule-violation-color', isDarkTheme ? '#ff5555' : 'red');
+                document.documentElement.style.setProperty('--changed-color', isDarkTheme ? '#7a5c00' : '#ffe08a');
+                document.documentElement.style.setProperty('--affected-color', isDarkTheme ? '#1f4e79' : '#cfe3ff');
+                document.documentElement.style.setProperty('--added-color', isDarkTheme ? '#4ec94e' : 'green');
+                document.documentElement.style.setProperty('--removed-color', isDarkTheme ? '#ff5555' : 'red');
                 
                 // Update class of document
                 if (isDarkTheme) {
@@ -2144,8 +4177,11 @@ function showDotGraphWebview(context: vscode.ExtensionContext, dotContent: strin
                     graphContainer.style.backgroundColor = 'transparent';
                 }
                 
-                // Update existing SVG elements directly
-                if (svgElement) {
+                // Package clusters and cross-package edges are styled in the DOT source, so re-render those graphs
+                if (svgElement && (isWorkspaceMode || isPackageMode)) {
+                    renderGraph({ viewBox: { ...viewBox }, zoom: currentZoom });
+                } else if (svgElement) {
+                    // Update existing SVG elements directly
                     updateSvgStylesForTheme(svgElement, isDarkTheme);
                 } else {
                     // If SVG doesn't exist, try rendering again
@@ -2165,26 +4201,151 @@ function showDotGraphWebview(context: vscode.ExtensionContext, dotContent: strin
             } else if (message.command === 'showError') {
                 // Display an error message without rendering graph
                 showErrorMessage({ message: message.errorMessage });
+            } else if (message.command === 'requestExport') {
+                // Render the current graph for export and send it back to the extension
+                exportRenderedGraph(message.format)
+                    .then(data => {
+                        vscode.postMessage({ command: 'exportData', requestId: message.requestId, data: data });
+                    })
+                    .catch(error => {
+                        vscode.postMessage({
+                            command: 'exportData',
+                            requestId: message.requestId,
+                            error: error instanceof Error ? error.message : String(error)
+                        });
+                    });
             }
         });
         
+        // Defined in src/svgExport.ts, where it is tested
+        const inlineComputedStyles = ${inlineComputedStyles.toString()};
+        
+        // Serialize the whole rendered graph (not just the visible viewport) as a standalone SVG
+        function serializeGraphSvg() {
+            if (!svgElement) {
+                throw new Error('The graph has not been rendered yet');
+            }
+            
+            const margin = 20;
+            const bbox = svgElement.getBBox();
+            const x = bbox.x - margin;
+            const y = bbox.y - margin;
+            const width = Math.ceil(bbox.width + margin * 2);
+            const height = Math.ceil(bbox.height + margin * 2);
+            
+            const clone = svgElement.cloneNode(true);
+            inlineComputedStyles(svgElement, clone, element => window.getComputedStyle(element));
+            clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+            clone.setAttribute('viewBox', x + ' ' + y + ' ' + width + ' ' + height);
+            clone.setAttribute('width', String(width));
+            clone.setAttribute('height', String(height));
+            clone.removeAttribute('style');
+            
+            // The graph background is transparent, so paint the theme background behind it
+            const background = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
+            background.setAttribute('x', String(x));
+            background.setAttribute('y', String(y));
+            background.setAttribute('width', String(width));
+            background.setAttribute('height', String(height));
+            background.setAttribute('fill', isDarkTheme ? '#1e1e1e' : '#ffffff');
+            clone.insertBefore(background, clone.firstChild);
+            
+            return { svg: new XMLSerializer().serializeToString(clone), width: width, height: height };
+        }
+        
+        // Rasterize the SVG on a canvas; resolves with base64 PNG data
+        function rasterizeSvg(svg, width, height) {
+            return new Promise((resolve, reject) => {
+                // Render at 2x for sharper output, within the browser's canvas size limit
+                const maxCanvasSize = 16384;
+                const scale = Math.min(2, maxCanvasSize / width, maxCanvasSize / height);
+                const image = new Image();
+                image.onload = () => {
+                    const canvas = document.createElement('canvas');
+                    canvas.width = Math.floor(width * scale);
+                    canvas.height = Math.floor(height * scale);
+                    const context = canvas.getContext('2d');
+                    if (!context) {
+                        reject(new Error('Canvas is not available'));
+                        return;
+                    }
+                    context.scale(scale, scale);
+                    context.drawImage(image, 0, 0, width, height);
+                    resolve(canvas.toDataURL('image/png').split(',')[1]);
+                };
+                image.onerror = () => reject(new Error('Could not rasterize the graph'));
+                image.src = 'data:image/svg+xml;charset=utf-8,' + encodeURIComponent(svg);
+            });
+        }
+        
+        async function exportRenderedGraph(format) {
+            const rendered = serializeGraphSvg();
+            if (format === 'png') {
+                return rasterizeSvg(rendered.svg, rendered.width, rendered.height);
+            }
+            return rendered.svg;
+        }
+        
+        // Export button asks the extension to show the format picker and save dialog
+        const exportButton = document.getElementById('export-button');
+        if (exportButton) {
+            exportButton.addEventListener('click', () => {
+                vscode.postMessage({ command: 'exportGraph' });
+            });
+        }
+        
         // Function to update legend display based on current mode
         function updateLegendDisplay() {
             const dependentsLegend = document.getElementById('dependents-legend');
             const dependenciesLegend = document.getElementById('dependencies-legend');
             const unusedModulesLegend = document.getElementById('unused-modules-legend');
+            const crossPackageLegend = document.getElementById('cross-package-legend');
             
             if (!dependentsLegend || !dependenciesLegend || !unusedModulesLegend) return;
             
+            // Cross-package edges only exist in the "Whole Workspace" graph
+            if (crossPackageLegend) {
+                crossPackageLegend.style.display = isWorkspaceMode ? 'flex' : 'none';
+            }
+            const packageLegend = document.getElementById('package-legend');
+            if (packageLegend) {
+                packageLegend.style.display = isPackageMode ? 'flex' : 'none';
+            }
+            const changedLegend = document.getElementById('changed-legend');
+            const affectedLegend = document.getElementById('affected-legend');
+            const changedLegendText = document.getElementById('changed-legend-text');
+            if (changedLegend && affectedLegend && changedLegendText) {
+                changedLegend.style.display = impactBaseRef ? 'flex' : 'none';
+                affectedLegend.style.display = impactBaseRef ? 'flex' : 'none';
+                if (impactBaseRef) {
+                    changedLegendText.textContent = 'Modules changed since ' + impactBaseRef;
+                }
+            }
+            const addedLegend = document.getElementById('added-legend');
+            const removedLegend = document.getElementById('removed-legend');
+            if (addedLegend && removedLegend) {
+                addedLegend.style.display = snapshotComparison ? 'flex' : 'none';
+                removedLegend.style.display = snapshotComparison ? 'flex' : 'none';
+            }
+            const pathLegend = document.getElementById('path-legend');
+            const pathLegendText = document.getElementById('path-legend-text');
+            if (pathLegend && pathLegendText) {
+                pathLegend.style.display = pathQuery ? 'flex' : 'none';
+                if (pathQuery) {
+                    pathLegendText.textContent = (pathQuery.allPaths ? 'Dependency paths from ' : 'Shortest dependency path from ') +
+                        pathQuery.from + ' to ' + pathQuery.to;
+                }
+            }
+            
             if (isUnusedModulesMode) {
                 // Show only unused modules legend in unused modules mode
                 dependentsLegend.style.display = 'none';
                 dependenciesLegend.style.display = 'none';
                 unusedModulesLegend.style.display = 'flex';
             } else if (isFocusedMode) {
-                // Show both legends in focused mode
-                dependentsLegend.style.display = 'flex';
-                dependenciesLegend.style.display = 'flex';
+                // Show the legends of the sides the focused graph follows
+                dependentsLegend.style.display = focusDirection !== 'dependencies' ? 'flex' : 'none';
+                dependenciesLegend.style.display = focusDirection !== 'dependents' ? 'flex' : 'none';
                 unusedModulesLegend.style.display = 'none';
             } else {
                 // Show no legend in regular mode
@@ -2194,165 +4355,268 @@ function showDotGraphWebview(context: vscode.ExtensionContext, dotContent: strin
             }
         }
         
+        // Show the focus controls in focused mode, reflecting the current depth and direction
+        function updateFocusControls() {
+            const focusControls = document.getElementById('focus-controls');
+            const depthInput = document.getElementById('focus-depth');
+            const depthAll = document.getElementById('focus-depth-all');
+            const directionSelect = document.getElementById('focus-direction');
+            if (!focusControls || !depthInput || !depthAll || !directionSelect) return;
+            
+            focusControls.style.display = isFocusedMode ? 'flex' : 'none';
+            depthAll.checked = focusDepth === 'all';
+            depthInput.disabled = focusDepth === 'all';
+            if (focusDepth !== 'all') {
+                depthInput.value = String(focusDepth);
+            }
+            directionSelect.value = focusDirection;
+        }
+        
+        // Ask the extension to redraw the focused graph with the chosen depth and direction
+        function setupFocusControls() {
+            const depthInput = document.getElementById('focus-depth');
+            const depthAll = document.getElementById('focus-depth-all');
+            const directionSelect = document.getElementById('focus-direction');
+            if (!depthInput || !depthAll || !directionSelect) return;
+            
+            const postFocusOptions = () => {
+                const depth = parseInt(depthInput.value, 10);
+                focusDepth = depthAll.checked ? 'all' : (depth >= 1 ? depth : 1);
+                focusDirection = directionSelect.value;
+                updateFocusControls();
+                updateLegendDisplay();
+                saveViewState();
+                vscode.postMessage({
+                    command: 'setFocusOptions',
+                    depth: focusDepth,
+                    direction: focusDirection
+                });
+            };
+            
+            depthInput.addEventListener('change', postFocusOptions);
+            depthAll.addEventListener('change', postFocusOptions);
+            directionSelect.addEventListener('change', postFocusOptions);
+        }
+        
+        setupFocusControls();
+        setupNodeMenu();
+        setupCyclesPanel();
+        setupPanHandlers();
+        setupScrollZoom();
+        setupSearchFunctionality();
+        
         // Notify VS Code that webview is ready
         vscode.postMessage({ command: 'webviewReady' });
     </script>
 </body>
 </html>`;
 
-  // Check if we already have a panel
-  if (currentPanel) {
-    // If we already have a panel, just update its html
-    currentPanel.webview.html = htmlContent;
-
-    // Set appropriate title based on mode
-    if (isUnusedModulesMode) {
-      currentPanel.title = 'ReScript: Unused Modules';
-    } else if (isFocusedMode && centerModuleName) {
-      currentPanel.title = `Module: ${centerModuleName} Dependencies`;
-    } else {
-      currentPanel.title = 'ReScript Dependencies';
-    }
+  currentPanel.webview.html = htmlContent;
+  currentPanel.title = panelTitle;
 
+  // A revived panel stays where VS Code restored it
+  if (!isNewPanel && !isRestoringGraphPanel) {
     currentPanel.reveal(vscode.ViewColumn.One);
+  }
 
-    // Send the graph data after the webview is loaded
-    currentPanel.webview.onDidReceiveMessage(
-      message => {
-        if (message.command === 'webviewReady') {
-          currentPanel?.webview.postMessage({
-            command: 'initGraph',
-            dotContent: themedDotContent,
-            isFocusedMode: isFocusedMode,
-            centerModule: centerModuleName,
-            isUnusedModulesMode: isUnusedModulesMode
-          });
-        }
-      }
-    );
-  } else {
-    // Create a new panel
-    currentPanel = vscode.window.createWebviewPanel(
-      'bibimbobVisualizer',
-      isUnusedModulesMode ? 'ReScript: Unused Modules' :
-        (isFocusedMode && centerModuleName ? `Module: ${centerModuleName} Dependencies` : 'ReScript Dependencies'),
-      vscode.ViewColumn.One,
-      {
-        enableScripts: true,
-        localResourceRoots: [
-          vscode.Uri.file(path.join(context.extensionPath, 'media'))
-        ]
+}
+
+// Panel title for a graph view, naming the project the graph was generated from
+function getGraphPanelTitle(view: GraphView): string {
+  if (view.kind === 'packages') {
+    return 'ReScript: Package Dependencies';
+  }
+  if (view.kind === 'workspace') {
+    return 'ReScript Dependencies: Whole Workspace';
+  }
+  const projectSuffix = ` (${readProjectName(view.projectRoot)})`;
+  switch (view.kind) {
+    case 'unused':
+      return `ReScript: Unused Modules${projectSuffix}`;
+    case 'focused':
+      return `Module: ${view.centerModule} Dependencies${projectSuffix}`;
+    case 'path':
+      return `Path: ${view.pathQuery.from} → ${view.pathQuery.to}${projectSuffix}`;
+    case 'cycles':
+      return `ReScript: Dependency Cycles${projectSuffix}`;
+    case 'impact':
+      return `Change Impact: ${view.impactQuery.baseRef}${projectSuffix}`;
+    case 'snapshots':
+      return `Graph Diff: ${view.comparison.before.name} → ${view.comparison.after?.name ?? 'Current build'}${projectSuffix}`;
+    default:
+      return `ReScript Dependencies${projectSuffix}`;
+  }
+}
+
+// Project of a single-project view; undefined for the workspace and package graphs
+function getViewProjectRoot(view: GraphView | undefined): string | undefined {
+  return view && 'projectRoot' in view ? view.projectRoot : undefined;
+}
+
+// Mode fields of the initGraph and updateGraph messages, which the webview saves as its GraphPanelState
+function getViewMessageFields(view: GraphView) {
+  return {
+    isFocusedMode: view.kind === 'focused',
+    centerModule: view.kind === 'focused' ? view.centerModule : undefined,
+    focusDepth: currentFocusOptions.depth,
+    focusDirection: currentFocusOptions.direction,
+    isUnusedModulesMode: view.kind === 'unused',
+    pathQuery: view.kind === 'path' ? view.pathQuery : undefined,
+    isCyclesMode: view.kind === 'cycles',
+    impactBaseRef: view.kind === 'impact' ? view.impactQuery.baseRef : undefined,
+    snapshotComparison: view.kind === 'snapshots' ? getSnapshotComparisonIds(view.comparison) : undefined,
+    isWorkspaceMode: view.kind === 'workspace',
+    isPackageMode: view.kind === 'packages',
+    projectRoot: getViewProjectRoot(view),
+    projectRoots: 'workspace' in view ? view.workspace.packages.map(pkg => pkg.projectRoot) : undefined
+  };
+}
+
+function getGraphWebviewOptions(context: vscode.ExtensionContext): vscode.WebviewOptions {
+  return {
+    enableScripts: true,
+    localResourceRoots: [
+      vscode.Uri.file(path.join(context.extensionPath, 'media'))
+    ]
+  };
+}
+
+// Re-run the CLI for a graph panel restored after a reload, using the mode and project saved in its state
+async function reviveGraphPanel(context: vscode.ExtensionContext, panel: vscode.WebviewPanel, state: GraphPanelState | undefined) {
+  const projectRoot = state?.projectRoot;
+  const workspaceProjectRoots = (state?.projectRoots ?? []).filter(root => fs.existsSync(root));
+  // Only one graph panel is kept; drop panels without a usable project
+  if (currentPanel || (workspaceProjectRoots.length === 0 && (!projectRoot || !fs.existsSync(projectRoot)))) {
+    panel.dispose();
+    return;
+  }
+
+  panel.webview.options = getGraphWebviewOptions(context);
+  currentPanel = panel;
+  attachPanelHandlers(context, panel);
+
+  if (workspaceProjectRoots.length > 0) {
+    try {
+      const workspace = await loadWorkspaceGraph(context, workspaceProjectRoots);
+      if (currentPanel !== panel) {
+        return;
       }
-    );
 
-    currentPanel.webview.html = htmlContent;
-
-    // Handle panel disposal
-    currentPanel.onDidDispose(() => {
-      currentPanel = undefined;
-    }, null, context.subscriptions);
-
-    // Send the graph data after the webview is loaded
-    currentPanel.webview.onDidReceiveMessage(
-      message => {
-        if (message.command === 'webviewReady') {
-          currentPanel?.webview.postMessage({
-            command: 'initGraph',
-            dotContent: themedDotContent,
-            isFocusedMode: isFocusedMode,
-            centerModule: centerModuleName,
-            isUnusedModulesMode: isUnusedModulesMode
-          });
-        }
+      isRestoringGraphPanel = true;
+      if (state?.isPackageMode) {
+        const packageGraph = collapseToPackages(workspace);
+        showDotGraphWebview(context, packageGraph.graph, { kind: 'packages', workspace, packageGraph });
+      } else {
+        showDotGraphWebview(context, workspace.graph, { kind: 'workspace', workspace });
       }
-    );
+    } catch (error) {
+      vscode.window.showErrorMessage(`Error restoring dependency graph: ${error instanceof Error ? error.message : error}`);
+      panel.dispose();
+    }
+    return;
+  }
+
+  try {
+    const { graph, view } = await loadProjectGraphView(context, projectRoot!, state ?? {});
+    if (currentPanel !== panel) {
+      return;
+    }
+
+    currentFocusOptions = parseFocusOptions(state?.focusDepth, state?.focusDirection);
+    isRestoringGraphPanel = true;
+    showDotGraphWebview(context, graph, view);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Error restoring dependency graph: ${error instanceof Error ? error.message : error}`);
+    panel.dispose();
+  }
+}
+
+// Run the CLI for the project graph view described by a webview state: the state saved before a reload,
+// or the mode fields of the current view when the panel is refreshed
+async function loadProjectGraphView(
+  context: vscode.ExtensionContext,
+  projectRoot: string,
+  state: GraphPanelState
+): Promise<{ graph: DependencyGraph; view: GraphView }> {
+  const cliPath = await findRescriptDepCLI(context);
+  const buildDir = getBuildDir(projectRoot);
+  if (state.isUnusedModulesMode) {
+    return { graph: await loadDependencyGraph(cliPath, ['--no-dependents', buildDir]), view: { kind: 'unused', projectRoot } };
+  }
+  if (state.isFocusedMode && state.centerModule) {
+    const focusOptions = parseFocusOptions(state.focusDepth, state.focusDirection);
+    const graph = await loadFocusedGraph(cliPath, buildDir, state.centerModule, focusOptions);
+    return { graph, view: { kind: 'focused', projectRoot, centerModule: state.centerModule } };
+  }
+  if (state.pathQuery) {
+    return { graph: await loadPathGraph(cliPath, buildDir, state.pathQuery), view: { kind: 'path', projectRoot, pathQuery: state.pathQuery } };
   }
+  if (state.isCyclesMode) {
+    return { graph: await loadCycleGraph(cliPath, projectRoot), view: { kind: 'cycles', projectRoot } };
+  }
+  if (state.impactBaseRef) {
+    // The changed files are listed again, so edits since the last refresh show up too
+    const { graph, impactQuery } = await loadImpactGraph(cliPath, projectRoot, state.impactBaseRef);
+    return { graph, view: { kind: 'impact', projectRoot, impactQuery } };
+  }
+  if (state.snapshotComparison) {
+    const { graph, comparison } = await loadSnapshotComparison(context, state.snapshotComparison.beforeId, state.snapshotComparison.afterId);
+    return { graph, view: { kind: 'snapshots', projectRoot, comparison } };
+  }
+  return { graph: await loadDependencyGraph(cliPath, [buildDir]), view: { kind: 'full', projectRoot } };
+}
 
+// Snapshot ids kept in the webview state, enough to load the comparison again
+function getSnapshotComparisonIds(comparison: SnapshotComparison | undefined): GraphPanelState['snapshotComparison'] {
+  return comparison ? { beforeId: comparison.before.id, afterId: comparison.after?.id } : undefined;
+}
+
+// Register the message, theme and disposal handlers of a graph panel (once per panel)
+function attachPanelHandlers(context: vscode.ExtensionContext, panel: vscode.WebviewPanel) {
   // Listen for theme changes
-  context.subscriptions.push(
-    vscode.window.onDidChangeActiveColorTheme(theme => {
-      const newIsDarkTheme = theme.kind === vscode.ColorThemeKind.Dark;
-      if (currentPanel && currentDotContent) {
-        // Regenerate DOT content based on new theme
-        let updatedDotContent = currentDotContent;
-
-        // Set appropriate graph attributes based on new theme
-        const themeAttributes = newIsDarkTheme ?
-          'bgcolor="transparent" fontcolor="#e0e0e0"' :
-          'bgcolor="transparent" fontcolor="#333333"';
-
-        // Set node styles based on new theme
-        const nodeStyle = newIsDarkTheme ?
-          'node[shape=box, fontname="sans-serif", style="filled", fillcolor="#1e1e1e", margin="0.3,0.2", color="#aaaaaa", penwidth=1]' :
-          'node[shape=box, fontname="sans-serif", style="filled", fillcolor="#f0f0f0", margin="0.3,0.2", color="#666666", penwidth=1]';
-
-        // Set edge styles based on new theme
-        const edgeStyle = newIsDarkTheme ?
-          'edge[color="#555555", arrowsize=0.8, arrowhead=normal, penwidth=1, minlen=1]' :
-          'edge[color="#cccccc", arrowsize=0.8, arrowhead=normal, penwidth=1, minlen=1]';
-
-        // Set basic properties
-        updatedDotContent = updatedDotContent.replace(/^(digraph\s+\w+\s*\{)/m,
-          `$1\n  ${themeAttributes}\n  ${nodeStyle}\n  ${edgeStyle}\n  splines=true\n  overlap=false\n  sep="+10"`);
-
-        // Force apply node styles
-        if (newIsDarkTheme) {
-          updatedDotContent = updatedDotContent.replace(/\s+(\w+)\s*\[/g, ' $1 [style="filled", fillcolor="#1e1e1e", ');
-        } else {
-          updatedDotContent = updatedDotContent.replace(/\s+(\w+)\s*\[/g, ' $1 [style="filled", fillcolor="#f0f0f0", ');
-        }
+  const themeListener = vscode.window.onDidChangeActiveColorTheme(theme => {
+    const newIsDarkTheme = theme.kind === vscode.ColorThemeKind.Dark;
+    if (currentPanel && currentGraph && currentView) {
+      // Regenerate DOT content based on new theme
+      const updatedDotContent = generateThemedDot(currentGraph, currentView, newIsDarkTheme);
+      currentDotContent = updatedDotContent;
+
+      // Send webview a command to update theme
+      const { isFocusedMode, centerModule } = getViewMessageFields(currentView);
+      currentPanel.webview.postMessage({
+        command: 'updateTheme',
+        dotContent: updatedDotContent,
+        isFocusedMode,
+        centerModule,
+        isDarkTheme: newIsDarkTheme
+      });
+    }
+  });
 
-        // Send webview a command to update theme
-        currentPanel.webview.postMessage({
-          command: 'updateTheme',
-          dotContent: updatedDotContent,
-          isFocusedMode: currentIsFocusedMode,
-          centerModule: currentCenterModule,
-          isDarkTheme: newIsDarkTheme
-        });
-      }
-    })
-  );
+  // Handle panel disposal
+  panel.onDidDispose(() => {
+    themeListener.dispose();
+    isRestoringGraphPanel = false;
+    graphBuildWatcher?.dispose();
+    graphBuildWatcher = undefined;
+    graphBuildWatcherDirs = undefined;
+    currentPanel = undefined;
+    for (const request of pendingExportRequests.values()) {
+      request.reject(new Error('The graph panel was closed.'));
+    }
+    pendingExportRequests.clear();
+  }, null, context.subscriptions);
 
-  // Restore the message handler for webview communication
-  if (currentPanel) { // Ensure panel exists before adding listener
-    currentPanel.webview.onDidReceiveMessage(
+  // Message handler for webview communication
+  panel.webview.onDidReceiveMessage(
       async message => {
         switch (message.command) {
           case 'openFile':
-            try {
-              let filePath = message.path;
-              let lineNumber = message.line || 1;
-
+            if (message.path) {
+              await openFileAtLine(message.path, message.line || 1);
+            } else {
               // Try to find the file in the project if path is not provided
-              if (!filePath) {
-                const moduleInfo = await findModuleInProject(message.moduleName);
-                if (moduleInfo) {
-                  filePath = moduleInfo.path;
-                  lineNumber = moduleInfo.line;
-                } else {
-                  vscode.window.showWarningMessage(`File not found: ${message.moduleName}`);
-                  return;
-                }
-              }
-
-              // Create URI and open file
-              const fileUri = vscode.Uri.file(filePath);
-              const document = await vscode.workspace.openTextDocument(fileUri);
-              await vscode.window.showTextDocument(document);
-
-              // Move to specified line
-              const editor = vscode.window.activeTextEditor;
-              if (editor) {
-                const position = new vscode.Position(lineNumber - 1, 0);
-                editor.selection = new vscode.Selection(position, position);
-                editor.revealRange(
-                  new vscode.Range(position, position),
-                  vscode.TextEditorRevealType.InCenter
-                );
-              }
-            } catch (error) {
-              vscode.window.showErrorMessage(`Failed to open file: ${error}`);
+              await openModuleFile(message.moduleName);
             }
             break;
 
@@ -2368,8 +4632,18 @@ function showDotGraphWebview(context: vscode.ExtensionContext, dotContent: strin
             break;
 
           case 'focusModule':
+            // Clicking a package of the package graph expands it into its module graph
+            if (currentView?.kind === 'packages') {
+              const expandedPackage = currentView.workspace.packages.find(pkg => pkg.name === message.moduleName);
+              if (expandedPackage) {
+                showDotGraphWebview(context, expandedPackage.graph, { kind: 'full', projectRoot: expandedPackage.projectRoot });
+              }
+              break;
+            }
             try {
-              const moduleName = message.moduleName;
+              // Modules of a "Whole Workspace" graph are identified as <package>/<Module>
+              const origin = currentView?.kind === 'workspace' ? currentView.workspace.moduleOrigins.get(message.moduleName) : undefined;
+              const moduleName = origin ? origin.moduleName : message.moduleName;
               if (!moduleName) {
                 vscode.window.showErrorMessage('No module name provided');
                 return;
@@ -2382,20 +4656,13 @@ function showDotGraphWebview(context: vscode.ExtensionContext, dotContent: strin
                 cancellable: true
               }, async (progress, token) => {
 
-                // Re-calculate project root and bsDir for this focus request
-                const workspaceFolders = vscode.workspace.workspaceFolders;
-                if (!workspaceFolders || workspaceFolders.length === 0) {
-                  vscode.window.showErrorMessage('No workspace folder open');
-                  return;
-                }
-                const workspaceRoot = workspaceFolders[0].uri.fsPath;
-                const configFileUri = await findConfigFile(workspaceRoot);
-                if (!configFileUri) {
-                  vscode.window.showErrorMessage('Could not find config file when focusing module.');
+                // Stay in the project the graph was generated from (or the module's package in a workspace graph)
+                const projectRoot = origin ? origin.projectRoot : getViewProjectRoot(currentView);
+                if (!projectRoot) {
+                  vscode.window.showErrorMessage(`${moduleName} does not belong to any of the analyzed projects.`);
                   return;
                 }
-                const projectRoot = path.dirname(configFileUri.fsPath);
-                const bsDir = path.join(projectRoot, 'lib', 'bs');
+                const bsDir = getBuildDir(projectRoot);
 
                 if (!fs.existsSync(bsDir)) {
                   vscode.window.showWarningMessage(`Build directory not found: ${bsDir}`);
@@ -2405,118 +4672,38 @@ function showDotGraphWebview(context: vscode.ExtensionContext, dotContent: strin
                 // Find CLI path
                 const cliPath = await findRescriptDepCLI(context);
 
-                // Define CLI arguments - Use DOT format for better performance
-                const args: string[] = ['--format=dot'];
-
-                // Add module focus
-                args.push('--module', moduleName);
-
-                // Add bsDir target
-                args.push(bsDir);
-
-                // Get DOT format data
-                const dotContent = await runRescriptDep(cliPath, args, context);
+                // Get the focused graph model for this module, keeping the chosen depth and direction
+                const graph = await loadFocusedGraph(cliPath, bsDir, moduleName, currentFocusOptions);
 
                 if (token.isCancellationRequested) { return; }
 
-                if (dotContent && currentPanel) { // Check panel existence again
+                if (graph.modules.size > 0 && currentPanel) { // Check panel existence again
                   // Detect if the current theme is dark
                   const isDarkTheme = vscode.window.activeColorTheme && vscode.window.activeColorTheme.kind === vscode.ColorThemeKind.Dark;
 
-                  // Set theme style
-                  const themeAttributes = isDarkTheme ?
-                    'bgcolor="transparent" fontcolor="#e0e0e0"' :
-                    'bgcolor="transparent" fontcolor="#333333"';
-
-                  const nodeStyle = isDarkTheme ?
-                    'node[shape=box, fontname="sans-serif", style="filled", fillcolor="#1e1e1e", margin="0.3,0.2", color="#aaaaaa", penwidth=1]' :
-                    'node[shape=box, fontname="sans-serif", style="filled", fillcolor="#f0f0f0", margin="0.3,0.2", color="#666666", penwidth=1]';
-
-                  const edgeStyle = isDarkTheme ?
-                    'edge[color="#555555", arrowsize=0.8, arrowhead=normal, penwidth=1, minlen=1]' :
-                    'edge[color="#cccccc", arrowsize=0.8, arrowhead=normal, penwidth=1, minlen=1]';
-
-                  // Update DOT content - apply node styles directly
-                  let themedDotContent = dotContent;
-
-                  // Set basic properties
-                  themedDotContent = themedDotContent.replace(/^(digraph\s+\w+\s*\{)/m,
-                    `$1\n  ${themeAttributes}\n  ${nodeStyle}\n  ${edgeStyle}\n  splines=true\n  overlap=false\n  sep="+10"`);
-
-                  // Force apply node styles
-                  if (isDarkTheme) {
-                    themedDotContent = themedDotContent.replace(/\s+(\w+)\s*\[/g, ' $1 [style="filled", fillcolor="#1e1e1e", ');
-                  } else {
-                    themedDotContent = themedDotContent.replace(/\s+(\w+)\s*\[/g, ' $1 [style="filled", fillcolor="#f0f0f0", ');
-                  }
-
-                  // Process center module and edge styles in focus mode
-                  // Change center module node style
-                  const centerNodePattern = new RegExp(`\\s+(${moduleName})\\s*\\[`);
-                  themedDotContent = themedDotContent.replace(centerNodePattern, ` $1 [style="filled", fillcolor="lightgreen", `);
-
-                  // Change edge colors
-                  const lines = themedDotContent.split('\n');
-                  const coloredLines = lines.map(line => {
-                    // Edge line pattern matching
-                    if (line.includes('->') && !line.includes('//')) {
-                      const trimmed = line.trim();
-
-                      // Find source -> target pattern
-                      const parts = trimmed.split('->');
-                      if (parts.length === 2) {
-                        const source = parts[0].trim();
-                        let target = parts[1].trim();
-
-                        // Extract pure target name
-                        const targetName = target.split(/[\[\s;]/)[0].trim();
-
-                        // Check if attributes exist
-                        const hasAttributes = target.includes('[');
-
-                        // 1. dependents -> center (arrows coming into the center module)
-                        if (targetName === moduleName) {
-                          if (hasAttributes) {
-                            // Add color to existing attributes - use darker color in dark theme
-                            const arrowColor = isDarkTheme ? 'steelblue' : 'lightblue';
-                            return line.replace(/\[([^\]]*)\]/, `[color="${arrowColor}", penwidth=1.5, $1]`);
-                          } else {
-                            // Add new attributes - use darker color in dark theme
-                            const arrowColor = isDarkTheme ? 'steelblue' : 'lightblue';
-                            return line.replace(/;/, ` [color="${arrowColor}", penwidth=1.5];`);
-                          }
-                        }
-                        // 2. center -> dependencies (arrows going out from the center module)
-                        else if (source === moduleName) {
-                          if (hasAttributes) {
-                            // Add color to existing attributes - use darker color in dark theme
-                            const arrowColor = isDarkTheme ? 'indianred' : 'lightcoral';
-                            return line.replace(/\[([^\]]*)\]/, `[color="${arrowColor}", penwidth=1.5, $1]`);
-                          } else {
-                            // Add new attributes - use darker color in dark theme
-                            const arrowColor = isDarkTheme ? 'indianred' : 'lightcoral';
-                            return line.replace(/;/, ` [color="${arrowColor}", penwidth=1.5];`);
-                          }
-                        }
-                      }
-                    }
-                    return line;
-                  });
+                  // Generate DOT content with the center module highlighted
+                  const view: GraphView = { kind: 'focused', projectRoot, centerModule: moduleName };
+                  const themedDotContent = generateThemedDot(graph, view, isDarkTheme);
 
-                  themedDotContent = coloredLines.join('\n');
+                  // Save current state to global variables
+                  currentGraph = graph;
+                  currentDotContent = themedDotContent;
+                  currentView = view;
+                  graphRefreshSerial++;
+                  watchGraphBuildOutput(context, [bsDir]);
 
                   // Update panel title
-                  currentPanel.title = `Module: ${moduleName} Dependencies`;
+                  currentPanel.title = getGraphPanelTitle(view);
 
                   // Send message to update the graph
                   currentPanel.webview.postMessage({
                     command: 'updateGraph',
                     dotContent: themedDotContent,
-                    isFocusedMode: true,
-                    centerModule: moduleName,
+                    ...getViewMessageFields(view),
+                    cycles: findCycles(graph),
                     isDarkTheme: isDarkTheme
                   });
-                } else if (!dotContent) {
+                } else if (graph.modules.size === 0) {
                   vscode.window.showErrorMessage(`Failed to generate dependency data for ${moduleName}`);
                 } else {
                   console.warn("Panel closed before focusModule update could be sent.");
@@ -2527,13 +4714,361 @@ function showDotGraphWebview(context: vscode.ExtensionContext, dotContent: strin
             }
             break;
 
+          case 'showPathFrom':
+            // "Path to…" in a node's context menu
+            if (message.moduleName) {
+              await showPathBetweenModules(context, message.moduleName);
+            }
+            break;
+
+          case 'setFocusOptions':
+            // Depth or direction changed in the webview's focus controls
+            await updateFocusOptions(context, parseFocusOptions(message.depth, message.direction));
+            break;
+
+          case 'exportGraph':
+            // Export button in the webview toolbar
+            await exportGraph();
+            break;
+
+          case 'exportData': {
+            // Rendered SVG/PNG data for a pending export request
+            const request = pendingExportRequests.get(message.requestId);
+            if (request) {
+              pendingExportRequests.delete(message.requestId);
+              if (message.error) {
+                request.reject(new Error(message.error));
+              } else {
+                request.resolve(message.data);
+              }
+            }
+            break;
+          }
+
           case 'webviewReady':
+            // Send the graph data after the webview is loaded
+            panel.webview.postMessage({
+              command: 'initGraph',
+              dotContent: currentDotContent,
+              ...(currentView ? getViewMessageFields(currentView) : {}),
+              cycles: currentGraph ? findCycles(currentGraph) : [],
+              restoreView: isRestoringGraphPanel
+            });
+            isRestoringGraphPanel = false;
             break;
         }
       },
       undefined,
       context.subscriptions
     );
+}
+
+// Watch the build output of the panel's projects and refresh the graph panel once a rebuild settles
+function watchGraphBuildOutput(context: vscode.ExtensionContext, buildDirs: string[]) {
+  const watchedDirs = buildDirs.join(path.delimiter);
+  if (graphBuildWatcher && graphBuildWatcherDirs === watchedDirs) {
+    return;
+  }
+  graphBuildWatcher?.dispose();
+
+  let debounceTimer: ReturnType<typeof setTimeout> | undefined = undefined;
+  const onBuildOutputChange = () => {
+    if (debounceTimer) {
+      clearTimeout(debounceTimer);
+    }
+    debounceTimer = setTimeout(() => {
+      debounceTimer = undefined;
+      refreshGraphPanel(context);
+    }, BUILD_OUTPUT_DEBOUNCE_MS);
+  };
+
+  const watchers = buildDirs.map(buildDir => {
+    const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(buildDir, '**/*.cmt'));
+    watcher.onDidChange(onBuildOutputChange);
+    watcher.onDidCreate(onBuildOutputChange);
+    watcher.onDidDelete(onBuildOutputChange);
+    return watcher;
+  });
+
+  graphBuildWatcherDirs = watchedDirs;
+  graphBuildWatcher = new vscode.Disposable(() => {
+    if (debounceTimer) {
+      clearTimeout(debounceTimer);
+    }
+    watchers.forEach(watcher => watcher.dispose());
+  });
+}
+
+// Build directories of the projects the graph panel was generated from
+function getPanelBuildDirs(): string[] {
+  return getPanelProjectRoots().map(projectRoot => getBuildDir(projectRoot));
+}
+
+// Projects the graph panel was generated from
+function getPanelProjectRoots(): string[] {
+  if (currentView && 'workspace' in currentView) {
+    return currentView.workspace.packages.map(pkg => pkg.projectRoot);
+  }
+  const projectRoot = getViewProjectRoot(currentView);
+  return projectRoot ? [projectRoot] : [];
+}
+
+// Re-run the current view and update the panel in place, keeping the zoom and pan of the webview
+async function refreshGraphPanel(context: vscode.ExtensionContext) {
+  const view = currentView;
+  if (!currentPanel || !view) {
+    return;
+  }
+  if (view.kind === 'workspace' || view.kind === 'packages') {
+    await refreshWorkspaceGraphPanel(context, getPanelProjectRoots(), view.kind === 'packages');
+    return;
+  }
+  const serial = ++graphRefreshSerial;
+
+  try {
+    // Impact and snapshot views get their changed files and diff computed again
+    const { graph, view: reloadedView } = await loadProjectGraphView(context, view.projectRoot, getViewMessageFields(view));
+
+    // Ignore the result if the panel was closed or redrawn in the meantime
+    if (!currentPanel || serial !== graphRefreshSerial) {
+      return;
+    }
+
+    const isDarkTheme = vscode.window.activeColorTheme && vscode.window.activeColorTheme.kind === vscode.ColorThemeKind.Dark;
+    const themedDotContent = generateThemedDot(graph, reloadedView, isDarkTheme);
+    currentGraph = graph;
+    currentDotContent = themedDotContent;
+    currentView = reloadedView;
+
+    currentPanel.webview.postMessage({
+      command: 'updateGraph',
+      dotContent: themedDotContent,
+      ...getViewMessageFields(reloadedView),
+      cycles: findCycles(graph),
+      preserveView: true
+    });
+  } catch (error) {
+    // The build output can be incomplete while a build is running; the next change triggers another refresh
+    console.warn(`Could not refresh the dependency graph: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+// Redraw the focused graph with another depth or direction, without reopening the panel
+async function updateFocusOptions(context: vscode.ExtensionContext, focusOptions: FocusOptions) {
+  const view = currentView;
+  if (!currentPanel || view?.kind !== 'focused') {
+    return;
+  }
+  const { centerModule, projectRoot } = view;
+  currentFocusOptions = focusOptions;
+  const serial = ++graphRefreshSerial;
+
+  try {
+    const graph = await vscode.window.withProgress({
+      location: vscode.ProgressLocation.Window,
+      title: `ReScript: Analyzing dependencies for ${centerModule}...`
+    }, async () => loadFocusedGraph(await findRescriptDepCLI(context), getBuildDir(projectRoot), centerModule, focusOptions));
+
+    // Ignore the result if the panel was closed or redrawn in the meantime
+    if (!currentPanel || serial !== graphRefreshSerial) {
+      return;
+    }
+    if (graph.modules.size === 0) {
+      vscode.window.showErrorMessage(`Module ${centerModule} was not found in the dependency graph.`);
+      return;
+    }
+
+    const isDarkTheme = vscode.window.activeColorTheme && vscode.window.activeColorTheme.kind === vscode.ColorThemeKind.Dark;
+    const themedDotContent = generateThemedDot(graph, view, isDarkTheme);
+    currentGraph = graph;
+    currentDotContent = themedDotContent;
+
+    currentPanel.webview.postMessage({
+      command: 'updateGraph',
+      dotContent: themedDotContent,
+      ...getViewMessageFields(view),
+      cycles: findCycles(graph)
+    });
+  } catch (error) {
+    vscode.window.showErrorMessage(`Error analyzing module dependencies: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+// Refresh a "Whole Workspace" or package graph in place
+async function refreshWorkspaceGraphPanel(context: vscode.ExtensionContext, projectRoots: string[], isPackageMode: boolean) {
+  const serial = ++graphRefreshSerial;
+  try {
+    const workspace = await loadWorkspaceGraph(context, projectRoots);
+
+    // Ignore the result if the panel was closed or redrawn in the meantime
+    if (!currentPanel || serial !== graphRefreshSerial) {
+      return;
+    }
+
+    const isDarkTheme = vscode.window.activeColorTheme && vscode.window.activeColorTheme.kind === vscode.ColorThemeKind.Dark;
+    const packageGraph = isPackageMode ? collapseToPackages(workspace) : undefined;
+    const view: GraphView = packageGraph ? { kind: 'packages', workspace, packageGraph } : { kind: 'workspace', workspace };
+    currentGraph = packageGraph?.graph ?? workspace.graph;
+    const themedDotContent = generateThemedDot(currentGraph, view, isDarkTheme);
+    currentView = view;
+    currentDotContent = themedDotContent;
+
+    currentPanel.webview.postMessage({
+      command: 'updateGraph',
+      dotContent: themedDotContent,
+      ...getViewMessageFields(view),
+      cycles: findCycles(currentGraph),
+      preserveView: true
+    });
+  } catch (error) {
+    console.warn(`Could not refresh the workspace dependency graph: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+type ExportFormat = 'svg' | 'png' | 'dot' | 'json';
+
+// Ask the webview to render the current graph as SVG or PNG (base64)
+function requestWebviewExport(format: 'svg' | 'png'): Promise<string> {
+  const panel = currentPanel;
+  if (!panel) {
+    return Promise.reject(new Error('No dependency graph is open.'));
+  }
+
+  const requestId = ++exportRequestSerial;
+  return new Promise<string>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      pendingExportRequests.delete(requestId);
+      reject(new Error('Timed out waiting for the graph view to render the export.'));
+    }, EXPORT_TIMEOUT_MS);
+
+    pendingExportRequests.set(requestId, {
+      resolve: data => {
+        clearTimeout(timer);
+        resolve(data);
+      },
+      reject: error => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    });
+
+    panel.webview.postMessage({ command: 'requestExport', requestId, format });
+  });
+}
+
+// Export the graph shown in the webview, including focus and unused modules modes
+async function exportGraph() {
+  if (!currentPanel || !currentGraph) {
+    vscode.window.showErrorMessage('Open a dependency graph before exporting it.');
+    return;
+  }
+  const graph = currentGraph;
+  const dotContent = currentDotContent;
+
+  const formats: (vscode.QuickPickItem & { format: ExportFormat })[] = [
+    { label: 'SVG', description: 'Rendered graph as a vector image', format: 'svg' },
+    { label: 'PNG', description: 'Rendered graph as a bitmap image', format: 'png' },
+    { label: 'DOT', description: 'Graphviz source of the graph', format: 'dot' },
+    { label: 'JSON', description: 'Modules and dependencies in the rescriptdep JSON format', format: 'json' }
+  ];
+  const selected = await vscode.window.showQuickPick(formats, { placeHolder: 'Export the dependency graph as...' });
+  if (!selected) {
+    return;
+  }
+
+  const view = currentView;
+  let baseName = 'dependencies';
+  switch (view?.kind) {
+    case 'packages':
+      baseName = 'package-dependencies';
+      break;
+    case 'focused':
+      baseName = `${view.centerModule}-dependencies`;
+      break;
+    case 'unused':
+      baseName = 'unused-modules';
+      break;
+    case 'path':
+      baseName = `${view.pathQuery.from}-${view.pathQuery.to}-path`;
+      break;
+    case 'cycles':
+      baseName = 'dependency-cycles';
+      break;
+    case 'impact':
+      baseName = 'change-impact';
+      break;
+    case 'snapshots':
+      baseName = 'graph-diff';
+      break;
+  }
+  // Save next to the project the graph was generated from
+  const workspaceRoot = getViewProjectRoot(view) ?? getWorkspaceRoots()[0];
+  const fileName = `${baseName}.${selected.format}`;
+  const targetUri = await vscode.window.showSaveDialog({
+    defaultUri: workspaceRoot ? vscode.Uri.file(path.join(workspaceRoot, fileName)) : undefined,
+    filters: { [selected.label]: [selected.format] },
+    saveLabel: 'Export'
+  });
+  if (!targetUri) {
+    return;
+  }
+
+  try {
+    let content: Uint8Array;
+    switch (selected.format) {
+      case 'svg':
+        content = Buffer.from(await requestWebviewExport('svg'), 'utf8');
+        break;
+      case 'png':
+        content = Buffer.from(await requestWebviewExport('png'), 'base64');
+        break;
+      case 'dot':
+        content = Buffer.from(dotContent, 'utf8');
+        break;
+      case 'json':
+        content = Buffer.from(JSON.stringify(serializeDependencyGraph(graph), null, 2) + '\n', 'utf8');
+        break;
+    }
+
+    await vscode.workspace.fs.writeFile(targetUri, content);
+    vscode.window.showInformationMessage(`Dependency graph exported to ${path.basename(targetUri.fsPath)}`);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Error exporting dependency graph: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+// Open a file and move the cursor to the given (1-based) line
+async function openFileAtLine(filePath: string, lineNumber: number = 1) {
+  try {
+    // Create URI and open file
+    const fileUri = vscode.Uri.file(filePath);
+    const document = await vscode.workspace.openTextDocument(fileUri);
+    const editor = await vscode.window.showTextDocument(document);
+
+    // Move to specified line
+    const position = new vscode.Position(lineNumber - 1, 0);
+    editor.selection = new vscode.Selection(position, position);
+    editor.revealRange(
+      new vscode.Range(position, position),
+      vscode.TextEditorRevealType.InCenter
+    );
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to open file: ${error}`);
+  }
+}
+
+// Open a module's source file, searching the workspace when its path is unknown
+async function openModuleFile(moduleName: string, filePath?: string | null) {
+  if (filePath && fs.existsSync(filePath)) {
+    await openFileAtLine(filePath);
+    return;
+  }
+
+  const moduleInfo = await findModuleInProject(moduleName);
+  if (moduleInfo) {
+    await openFileAtLine(moduleInfo.path, moduleInfo.line);
+  } else {
+    vscode.window.showWarningMessage(`File not found: ${moduleName}`);
   }
 }
 
@@ -2544,7 +5079,6 @@ async function findModuleInProject(moduleName: string): Promise<{ path: string,
 
   // File extensions and directory list
   const extensions = ['.res', '.resi', '.re', '.rei', '.ml', '.mli']; // Common ReScript/OCaml extensions
-  const rootPath = workspaceFolders[0].uri.fsPath; // Use first workspace root
 
   try {
     // Search for files named ModuleName.ext or moduleName.ext
@@ -0,0 +1,55 @@
+// Read the changed files of a git repository. Must not depend on the vscode module.
+
+import * as cp from 'child_process';
+import * as path from 'path';
+
+const GIT_TIMEOUT_MS = 10000;
+const GIT_MAX_BUFFER_MB = 10;
+
+// Base ref for the uncommitted changes of the working tree
+export const WORKING_TREE_REF = 'HEAD';
+
+// Run git in a directory and return its output
+export async function runGit(cwd: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    cp.execFile('git', args, { cwd, timeout: GIT_TIMEOUT_MS, maxBuffer: GIT_MAX_BUFFER_MB * 1024 * 1024 }, (error, stdout, stderr) => {
+      if (error) {
+        const detail = stderr.toString().trim() || error.message;
+        reject(new Error(`git ${args.join(' ')} failed: ${detail}`));
+        return;
+      }
+      resolve(stdout.toString());
+    });
+  });
+}
+
+function splitLines(output: string): string[] {
+  return output.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+}
+
+// Root of the repository that contains a directory
+export async function getRepositoryRoot(cwd: string): Promise<string> {
+  return (await runGit(cwd, ['rev-parse', '--show-toplevel'])).trim();
+}
+
+// Local and remote-tracking branches, local ones first
+export async function listBranches(cwd: string): Promise<string[]> {
+  const output = await runGit(cwd, ['for-each-ref', '--format=%(refname:short)', 'refs/heads', 'refs/remotes']);
+  // `origin/HEAD` only points at another remote branch
+  return splitLines(output).filter(ref => !ref.endsWith('/HEAD'));
+}
+
+// Absolute paths of the ReScript source files changed since a base ref: committed changes since the
+// branch left the base (its merge base with HEAD), uncommitted changes and new untracked files.
+// Comparing with `HEAD` gives only the uncommitted changes.
+export async function listChangedSourceFiles(cwd: string, baseRef: string): Promise<string[]> {
+  const root = await getRepositoryRoot(cwd);
+  const base = baseRef === WORKING_TREE_REF
+    ? WORKING_TREE_REF
+    : (await runGit(root, ['merge-base', baseRef, 'HEAD'])).trim();
+  const pathspecs = ['*.res', '*.resi'];
+
+  const changed = splitLines(await runGit(root, ['diff', '--name-only', base, '--', ...pathspecs]));
+  const untracked = splitLines(await runGit(root, ['ls-files', '--others', '--exclude-standard', '--', ...pathspecs]));
+  return Array.from(new Set([...changed, ...untracked])).map(file => path.join(root, file));
+}
@@ -0,0 +1,142 @@
+// Named snapshots of a project's dependency graph, stored as JSON files, and the difference
+// between two of them. Must not depend on the vscode module.
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+import {
+  CliGraphOutput,
+  DependencyEdge,
+  DependencyGraph,
+  ModuleNode,
+  getEdges,
+  getModuleNames,
+  linkDependents,
+  parseDependencyGraph,
+  serializeDependencyGraph
+} from './dependencyGraph';
+
+export interface GraphSnapshot {
+  // File name of the snapshot in the storage directory, without extension
+  id: string;
+  name: string;
+  projectRoot: string;
+  // ISO 8601 time the snapshot was taken
+  createdAt: string;
+  // The graph in the CLI's JSON shape, so it can be read with parseDependencyGraph
+  graph: CliGraphOutput;
+}
+
+export type ChangeKind = 'added' | 'removed' | 'unchanged';
+
+export interface GraphDiff {
+  // Every module and dependency of both graphs
+  graph: DependencyGraph;
+  modules: Map<string, ChangeKind>;
+  // Keyed by getEdgeKey
+  edges: Map<string, ChangeKind>;
+}
+
+export function getEdgeKey(edge: DependencyEdge): string {
+  return `${edge.from} -> ${edge.to}`;
+}
+
+export function createSnapshot(name: string, projectRoot: string, graph: DependencyGraph, createdAt: Date = new Date()): GraphSnapshot {
+  return {
+    id: String(createdAt.getTime()),
+    name,
+    projectRoot,
+    createdAt: createdAt.toISOString(),
+    graph: serializeDependencyGraph(graph)
+  };
+}
+
+export function readSnapshotGraph(snapshot: GraphSnapshot): DependencyGraph {
+  return parseDependencyGraph(JSON.stringify(snapshot.graph));
+}
+
+function isSnapshot(value: unknown): value is GraphSnapshot {
+  const snapshot = value as GraphSnapshot;
+  return typeof snapshot === 'object' && snapshot !== null
+    && typeof snapshot.name === 'string'
+    && typeof snapshot.projectRoot === 'string'
+    && typeof snapshot.createdAt === 'string'
+    && typeof snapshot.graph === 'object' && snapshot.graph !== null;
+}
+
+// Every readable snapshot in a storage directory, newest first
+export function loadSnapshots(storageDir: string): GraphSnapshot[] {
+  let fileNames: string[];
+  try {
+    fileNames = fs.readdirSync(storageDir).filter(fileName => path.extname(fileName) === '.json');
+  } catch {
+    return [];
+  }
+
+  const snapshots: GraphSnapshot[] = [];
+  for (const fileName of fileNames) {
+    try {
+      const parsed: unknown = JSON.parse(fs.readFileSync(path.join(storageDir, fileName), 'utf8'));
+      if (isSnapshot(parsed)) {
+        snapshots.push({ ...parsed, id: path.basename(fileName, '.json') });
+      }
+    } catch {
+      // Skip files that were not written by saveSnapshot
+    }
+  }
+  return snapshots.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// Write a snapshot, replacing any earlier snapshot with the same name of the same project
+export function saveSnapshot(storageDir: string, snapshot: GraphSnapshot) {
+  fs.mkdirSync(storageDir, { recursive: true });
+  for (const existing of loadSnapshots(storageDir)) {
+    if (existing.name === snapshot.name && existing.projectRoot === snapshot.projectRoot) {
+      deleteSnapshot(storageDir, existing.id);
+    }
+  }
+  fs.writeFileSync(path.join(storageDir, `${snapshot.id}.json`), JSON.stringify(snapshot, null, 2) + '\n', 'utf8');
+}
+
+export function deleteSnapshot(storageDir: string, id: string) {
+  fs.rmSync(path.join(storageDir, `${id}.json`), { force: true });
+}
+
+// Merge two graphs into one that has every module and dependency of both, and mark each of them
+// as added (only in `after`), removed (only in `before`) or unchanged
+export function diffGraphs(before: DependencyGraph, after: DependencyGraph): GraphDiff {
+  const modules = new Map<string, ChangeKind>();
+  const merged = new Map<string, ModuleNode>();
+  for (const name of new Set([...getModuleNames(before), ...getModuleNames(after)])) {
+    const beforeNode = before.modules.get(name);
+    const afterNode = after.modules.get(name);
+    modules.set(name, !beforeNode ? 'added' : !afterNode ? 'removed' : 'unchanged');
+    const node = (afterNode ?? beforeNode)!;
+    merged.set(name, {
+      ...node,
+      dependencies: Array.from(new Set([...(beforeNode?.dependencies ?? []), ...(afterNode?.dependencies ?? [])])),
+      dependents: []
+    });
+  }
+  linkDependents(merged);
+
+  const beforeEdges = new Set(getEdges(before).map(getEdgeKey));
+  const afterEdges = new Set(getEdges(after).map(getEdgeKey));
+  const edges = new Map<string, ChangeKind>();
+  for (const key of new Set([...beforeEdges, ...afterEdges])) {
+    edges.set(key, !beforeEdges.has(key) ? 'added' : !afterEdges.has(key) ? 'removed' : 'unchanged');
+  }
+
+  return { graph: { modules: merged, cycles: after.cycles }, modules, edges };
+}
+
+// Number of added and removed modules and dependencies
+export function countChanges(diff: GraphDiff): { addedModules: number; removedModules: number; addedEdges: number; removedEdges: number } {
+  const count = (kinds: Map<string, ChangeKind>, kind: ChangeKind) => Array.from(kinds.values()).filter(value => value === kind).length;
+  return {
+    addedModules: count(diff.modules, 'added'),
+    removedModules: count(diff.modules, 'removed'),
+    addedEdges: count(diff.edges, 'added'),
+    removedEdges: count(diff.edges, 'removed')
+  };
+}
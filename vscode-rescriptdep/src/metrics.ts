@@ -0,0 +1,77 @@
+// Per-module coupling metrics of a dependency graph, for spotting god modules and fragile hubs.
+
+import { DependencyGraph, collectReachableModules, findStronglyConnectedComponents, getModuleNames } from './dependencyGraph';
+
+export interface ModuleMetrics {
+  name: string;
+  path: string | null;
+  // Afferent coupling (Ca): modules that depend on this module
+  fanIn: number;
+  // Efferent coupling (Ce): modules this module depends on
+  fanOut: number;
+  // Ce / (Ca + Ce): 0 for modules everything depends on, 1 for modules nothing depends on
+  instability: number;
+  // Modules reachable through the dependencies, at any depth
+  transitiveDependencies: number;
+  // Level in the topological order: 0 for modules without dependencies, otherwise one more
+  // than the deepest dependency. Modules of a cycle share one level.
+  depth: number;
+}
+
+// Topological level of every module. Cycles are collapsed into their strongly connected component,
+// so the levels stay finite.
+function computeDepths(graph: DependencyGraph): Map<string, number> {
+  const componentOf = new Map<string, string[]>();
+  for (const component of findStronglyConnectedComponents(graph)) {
+    for (const name of component) {
+      componentOf.set(name, component);
+    }
+  }
+
+  const depths = new Map<string, number>();
+  const visit = (name: string): number => {
+    const known = depths.get(name);
+    if (known !== undefined) {
+      return known;
+    }
+    const members = componentOf.get(name) ?? [name];
+    // Provisional level, so edges inside the component do not recurse
+    members.forEach(member => depths.set(member, 0));
+    let depth = 0;
+    for (const member of members) {
+      for (const dep of graph.modules.get(member)!.dependencies) {
+        if (graph.modules.has(dep) && !members.includes(dep)) {
+          depth = Math.max(depth, visit(dep) + 1);
+        }
+      }
+    }
+    members.forEach(member => depths.set(member, depth));
+    return depth;
+  };
+
+  for (const name of graph.modules.keys()) {
+    visit(name);
+  }
+  return depths;
+}
+
+// Metrics of every analyzed module (external modules only count as dependencies), sorted by name
+export function computeModuleMetrics(graph: DependencyGraph): ModuleMetrics[] {
+  const depths = computeDepths(graph);
+  return getModuleNames(graph)
+    .map(name => graph.modules.get(name)!)
+    .filter(node => !node.external)
+    .map(node => {
+      const fanIn = node.dependents.length;
+      const fanOut = node.dependencies.length;
+      return {
+        name: node.name,
+        path: node.path,
+        fanIn,
+        fanOut,
+        instability: fanIn + fanOut === 0 ? 0 : fanOut / (fanIn + fanOut),
+        transitiveDependencies: collectReachableModules(graph, node.name, 'dependencies').size,
+        depth: depths.get(node.name) ?? 0
+      };
+    });
+}
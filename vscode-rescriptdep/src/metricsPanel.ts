@@ -0,0 +1,208 @@
+import * as vscode from 'vscode';
+import { ModuleMetrics } from './metrics';
+import { escapeHtml, getNonce } from './webview';
+
+export const METRICS_PANEL_VIEW_TYPE = 'bibimbobMetrics';
+
+// The metrics panel is reused for the next project, like the graph panel
+let metricsPanel: vscode.WebviewPanel | undefined = undefined;
+let focusModuleHandler: ((moduleName: string) => void) | undefined = undefined;
+
+// Show the metrics of every module of a project in a sortable table.
+// Clicking a row calls `onFocusModule` with the module's name.
+export function showMetricsPanel(title: string, metrics: ModuleMetrics[], onFocusModule: (moduleName: string) => void) {
+  focusModuleHandler = onFocusModule;
+  if (metricsPanel) {
+    metricsPanel.title = title;
+    metricsPanel.reveal();
+  } else {
+    metricsPanel = vscode.window.createWebviewPanel(METRICS_PANEL_VIEW_TYPE, title, vscode.ViewColumn.One, {
+      enableScripts: true,
+      localResourceRoots: [],
+      retainContextWhenHidden: true
+    });
+    metricsPanel.webview.onDidReceiveMessage(message => {
+      if (message.command === 'focusModule' && typeof message.moduleName === 'string') {
+        focusModuleHandler?.(message.moduleName);
+      }
+    });
+    metricsPanel.onDidDispose(() => {
+      metricsPanel = undefined;
+      focusModuleHandler = undefined;
+    });
+  }
+  metricsPanel.webview.html = getMetricsHtml(metricsPanel.webview, title, metrics);
+}
+
+function getMetricsHtml(webview: vscode.Webview, title: string, metrics: ModuleMetrics[]): string {
+  const nonce = getNonce();
+  // Embedded as JSON data; `<` is escaped so module paths cannot close the script element
+  const metricsJson = JSON.stringify(metrics).replace(/</g, '\\u003c');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${escapeHtml(title)}</title>
+    <style>
+        body {
+            padding: 0 16px 16px;
+            color: var(--vscode-foreground);
+            font-family: var(--vscode-font-family);
+            font-size: var(--vscode-font-size);
+        }
+        .toolbar {
+            position: sticky;
+            top: 0;
+            display: flex;
+            align-items: center;
+            gap: 12px;
+            padding: 12px 0 8px;
+            background-color: var(--vscode-editor-background);
+        }
+        .toolbar input {
+            width: 240px;
+            padding: 4px 6px;
+            color: var(--vscode-input-foreground);
+            background-color: var(--vscode-input-background);
+            border: 1px solid var(--vscode-input-border, transparent);
+        }
+        .summary {
+            opacity: 0.8;
+        }
+        table {
+            width: 100%;
+            border-collapse: collapse;
+        }
+        th, td {
+            padding: 4px 8px;
+            text-align: right;
+            white-space: nowrap;
+        }
+        th:first-child, td:first-child {
+            text-align: left;
+            width: 100%;
+        }
+        th {
+            position: sticky;
+            top: 44px;
+            cursor: pointer;
+            user-select: none;
+            background-color: var(--vscode-editor-background);
+            border-bottom: 1px solid var(--vscode-panel-border, #80808059);
+        }
+        th:hover {
+            color: var(--vscode-textLink-foreground);
+        }
+        tbody tr {
+            cursor: pointer;
+        }
+        tbody tr:nth-child(even) {
+            background-color: var(--vscode-list-hoverBackground, rgba(128, 128, 128, 0.08));
+        }
+        tbody tr:hover {
+            background-color: var(--vscode-list-activeSelectionBackground);
+            color: var(--vscode-list-activeSelectionForeground);
+        }
+    </style>
+</head>
+<body>
+    <div class="toolbar">
+        <input type="text" id="filter" placeholder="Filter modules..." />
+        <span class="summary" id="summary"></span>
+    </div>
+    <table>
+        <thead>
+            <tr>
+                <th data-key="name" title="Module name; click a row to focus the module in the graph">Module</th>
+                <th data-key="fanIn" title="Afferent coupling (Ca): modules that depend on this module">Fan-in</th>
+                <th data-key="fanOut" title="Efferent coupling (Ce): modules this module depends on">Fan-out</th>
+                <th data-key="instability" title="Ce / (Ca + Ce): 0 is maximally stable, 1 is maximally unstable">Instability</th>
+                <th data-key="transitiveDependencies" title="Modules reachable through the dependencies, at any depth">Transitive deps</th>
+                <th data-key="depth" title="Level in the topological order: 0 for modules without dependencies">Depth</th>
+            </tr>
+        </thead>
+        <tbody id="rows"></tbody>
+    </table>
+    <script type="application/json" id="metrics-data">${metricsJson}</script>
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        const metrics = JSON.parse(document.getElementById('metrics-data').textContent);
+        const headers = Array.from(document.querySelectorAll('th'));
+        const labels = headers.map(header => header.textContent);
+        const filterInput = document.getElementById('filter');
+
+        // Hubs first: the most depended-on modules lead the table
+        let sortKey = 'fanIn';
+        let sortDescending = true;
+
+        function compare(a, b) {
+            const result = sortKey === 'name'
+                ? (a.name < b.name ? -1 : a.name > b.name ? 1 : 0)
+                : a[sortKey] - b[sortKey];
+            // Ties keep alphabetical order
+            if (result === 0) {
+                return a.name < b.name ? -1 : 1;
+            }
+            return sortDescending ? -result : result;
+        }
+
+        function render() {
+            const filter = filterInput.value.trim().toLowerCase();
+            const visible = metrics
+                .filter(metric => metric.name.toLowerCase().includes(filter))
+                .sort(compare);
+
+            const rows = document.getElementById('rows');
+            rows.textContent = '';
+            for (const metric of visible) {
+                const row = document.createElement('tr');
+                row.title = metric.path || metric.name;
+                const cells = [
+                    metric.name,
+                    String(metric.fanIn),
+                    String(metric.fanOut),
+                    metric.instability.toFixed(2),
+                    String(metric.transitiveDependencies),
+                    String(metric.depth)
+                ];
+                for (const text of cells) {
+                    const cell = document.createElement('td');
+                    cell.textContent = text;
+                    row.appendChild(cell);
+                }
+                row.addEventListener('click', () => {
+                    vscode.postMessage({ command: 'focusModule', moduleName: metric.name });
+                });
+                rows.appendChild(row);
+            }
+
+            headers.forEach((header, index) => {
+                const arrow = header.dataset.key === sortKey ? (sortDescending ? ' ▼' : ' ▲') : '';
+                header.textContent = labels[index] + arrow;
+            });
+            document.getElementById('summary').textContent = visible.length === metrics.length
+                ? metrics.length + ' modules'
+                : visible.length + ' of ' + metrics.length + ' modules';
+        }
+
+        headers.forEach(header => {
+            header.addEventListener('click', () => {
+                if (header.dataset.key === sortKey) {
+                    sortDescending = !sortDescending;
+                } else {
+                    sortKey = header.dataset.key;
+                    // Names read best A to Z, numbers largest first
+                    sortDescending = sortKey !== 'name';
+                }
+                render();
+            });
+        });
+        filterInput.addEventListener('input', render);
+        render();
+    </script>
+</body>
+</html>`;
+}
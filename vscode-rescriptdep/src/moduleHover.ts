@@ -0,0 +1,69 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { findModuleNameAt } from './cycles';
+import { DependencyGraph, ModuleNode, getModuleNames } from './dependencyGraph';
+import { OPEN_MODULE } from './dependencyTree';
+
+export const FOCUS_MODULE_IN_GRAPH = 'bibimbob.focusModuleInGraph';
+
+// Look a module up by name, also under its namespaced name such as `Logger-App`
+function findModuleNode(graph: DependencyGraph, name: string): ModuleNode | undefined {
+  const namespacedName = graph.modules.has(name) ? name : getModuleNames(graph).find(candidate => candidate.startsWith(`${name}-`));
+  return namespacedName ? graph.modules.get(namespacedName) : undefined;
+}
+
+// Shows a module's direct dependency and dependent counts when hovering `open Logger` or `Utils.formatDate`
+export class ModuleHoverProvider implements vscode.HoverProvider {
+  constructor(
+    private readonly findProjectRoot: (filePath: string) => Promise<string | undefined>,
+    // Expected to be cached, since it is called on every hover
+    private readonly getGraph: (projectRoot: string) => Promise<DependencyGraph>
+  ) { }
+
+  async provideHover(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): Promise<vscode.Hover | undefined> {
+    const reference = findModuleNameAt(document.lineAt(position.line).text, position.character);
+    if (!reference) {
+      return undefined;
+    }
+    const projectRoot = await this.findProjectRoot(document.fileName);
+    if (!projectRoot) {
+      return undefined;
+    }
+
+    let graph: DependencyGraph;
+    try {
+      graph = await this.getGraph(projectRoot);
+    } catch (error) {
+      // Usually a project that has not been built yet; hovers stay quiet
+      console.log('[Bibimbob] Could not load the graph for the module hover:', error);
+      return undefined;
+    }
+    const node = findModuleNode(graph, reference.name);
+    if (!node || token.isCancellationRequested) {
+      return undefined;
+    }
+
+    const hover = new vscode.MarkdownString(undefined, true);
+    hover.isTrusted = { enabledCommands: [FOCUS_MODULE_IN_GRAPH, OPEN_MODULE] };
+    const dependencyCount = node.dependencies.length;
+    const dependentCount = node.dependents.length;
+    hover.appendMarkdown(`**${node.name}**: ${dependencyCount} ${dependencyCount === 1 ? 'dependency' : 'dependencies'}, `
+      + `${dependentCount} ${dependentCount === 1 ? 'dependent' : 'dependents'}\n\n`);
+    if (node.path) {
+      hover.appendMarkdown(`\`${path.relative(projectRoot, node.path)}\`\n\n`);
+    } else if (node.external) {
+      hover.appendMarkdown('External module\n\n');
+    }
+
+    const focusArgs = encodeURIComponent(JSON.stringify([projectRoot, node.name]));
+    const links = [`[Focus in graph](command:${FOCUS_MODULE_IN_GRAPH}?${focusArgs} "Focus the graph on ${node.name}")`];
+    if (node.path) {
+      const openArgs = encodeURIComponent(JSON.stringify([node.name, node.path]));
+      links.push(`[Open file](command:${OPEN_MODULE}?${openArgs} "Open ${node.name}")`);
+    }
+    hover.appendMarkdown(links.join(' · '));
+
+    const range = new vscode.Range(position.line, reference.character, position.line, reference.character + reference.name.length);
+    return new vscode.Hover(hover, range);
+  }
+}
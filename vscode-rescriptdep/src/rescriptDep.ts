@@ -0,0 +1,96 @@
+// Locate and run the rescriptdep CLI. Shared by the extension and the headless
+// `bibimbob-check` command, so it must not depend on the vscode module.
+
+import * as cp from 'child_process';
+import * as os from 'os';
+import * as path from 'path';
+
+export interface CliRunOptions {
+  // Time limit for a single CLI run
+  timeoutMs: number;
+  // Maximum size of the CLI output
+  maxBufferMB: number;
+  // `nice` increment on macOS/Linux (0 runs the CLI without `nice`)
+  niceLevel: number;
+}
+
+export const DEFAULT_CLI_RUN_OPTIONS: CliRunOptions = { timeoutMs: 10000, maxBufferMB: 10, niceLevel: 10 };
+
+// Get path to bundled CLI based on platform
+export function getBundledCLIPath(extensionPath: string): string {
+  const platform = os.platform();
+  let binaryName = 'rescriptdep';
+
+  if (platform === 'win32') {
+    binaryName += '.exe';
+  }
+
+  // Different paths based on platform
+  const platformDir = platform === 'win32' ? 'win32' :
+    platform === 'darwin' ? 'darwin' : 'linux';
+
+  return path.join(extensionPath, 'bin', platformDir, binaryName);
+}
+
+// Whether `rescriptdep` can be run from PATH
+export function isCLIOnPath(): boolean {
+  try {
+    if (os.platform() === 'win32') {
+      cp.execSync('where rescriptdep', { stdio: 'ignore' });
+    } else {
+      cp.execSync('which rescriptdep', { stdio: 'ignore' });
+    }
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Run CLI with arguments
+export async function runRescriptDep(cliPath: string, args: string[], options: CliRunOptions): Promise<string> {
+  const { timeoutMs, maxBufferMB, niceLevel } = options;
+  return new Promise((resolve, reject) => {
+    const command = cliPath;
+    const execOptions: cp.ExecFileOptions = {
+      maxBuffer: maxBufferMB * 1024 * 1024,
+      timeout: timeoutMs,
+    };
+
+    // Platform-specific CPU limiting wrapper
+    let cpuLimitedCommand = command;
+    let cpuLimitedArgs = [...args];
+
+    if (os.platform() !== 'win32' && niceLevel > 0) {
+      // On Unix systems (macOS/Linux), use 'nice' to limit CPU priority
+      cpuLimitedArgs = ['-n', String(niceLevel), command, ...args];
+      cpuLimitedCommand = 'nice';
+    }
+
+    cp.execFile(cpuLimitedCommand, cpuLimitedArgs, execOptions, (error, stdout, stderr) => {
+      if (error) {
+        console.error(`rescriptdep stderr: ${stderr}`);
+
+        // Handle timeout error specifically
+        if (error.killed || error.message.includes('timeout')) {
+          reject(new Error(`The operation timed out after ${timeoutMs / 1000} seconds. The project may be too large to analyze (see bibimbob.timeoutMs).`));
+          return;
+        }
+
+        // Provide more specific error message for buffer exceeded case
+        if (error.message.includes('maxBuffer')) {
+          reject(new Error(`The project has too many modules to visualize as a graph (output exceeded ${maxBufferMB} MB, see bibimbob.maxBufferMB). This feature works best with smaller projects or when focusing on specific modules.`));
+          return;
+        }
+
+        // Include stderr in the rejection for better debugging
+        reject(new Error(`Command failed: ${command} ${args.join(' ')}\n${error.message}\nStderr: ${stderr}`));
+        return;
+      }
+
+      if (stderr) {
+        console.warn(`rescriptdep stderr: ${stderr}`);
+      }
+      resolve(stdout.toString());
+    });
+  });
+}
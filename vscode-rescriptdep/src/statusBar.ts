@@ -0,0 +1,131 @@
+import * as vscode from 'vscode';
+
+export const SHOW_STATUS_MENU = 'bibimbob.showStatusMenu';
+
+// Counts shown in the status bar for a project
+export interface ProjectHealth {
+  projectName: string;
+  moduleCount: number;
+  cycleCount: number;
+  unusedModuleCount: number;
+}
+
+// Commands offered when the status bar item is clicked; each one receives the project root
+export interface StatusMenuCommands {
+  showGraph: string;
+  showCycles: string;
+  showUnusedModules: string;
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+// Status bar item with the module, cycle and unused module counts of the active file's project
+export class DependencyStatusBar implements vscode.Disposable {
+  private readonly item: vscode.StatusBarItem;
+  private projectRoot: string | undefined;
+  // Results per project root, cleared after builds
+  private readonly healthCache = new Map<string, ProjectHealth | Error>();
+  // Bumped on every update so a slow load for another project does not overwrite the item
+  private updateSerial = 0;
+
+  constructor(
+    private readonly findProjectRoot: (filePath: string) => Promise<string | undefined>,
+    private readonly loadHealth: (projectRoot: string) => Promise<ProjectHealth>,
+    private readonly commands: StatusMenuCommands
+  ) {
+    this.item = vscode.window.createStatusBarItem('bibimbob.projectHealth', vscode.StatusBarAlignment.Left, 0);
+    this.item.name = 'Bibimbob Project Dependencies';
+    this.item.command = SHOW_STATUS_MENU;
+  }
+
+  // Show the project of an editor's file. Without a text editor (e.g. while the graph panel is
+  // active) the item keeps showing the last project.
+  async setActiveEditor(editor: vscode.TextEditor | undefined): Promise<void> {
+    if (!editor || editor.document.uri.scheme !== 'file') {
+      return;
+    }
+    const serial = ++this.updateSerial;
+    const projectRoot = await this.findProjectRoot(editor.document.fileName);
+    if (serial !== this.updateSerial) {
+      return;
+    }
+    if (!projectRoot) {
+      this.projectRoot = undefined;
+      this.item.hide();
+      return;
+    }
+    if (projectRoot !== this.projectRoot || !this.healthCache.has(projectRoot)) {
+      this.projectRoot = projectRoot;
+      await this.update(serial);
+    }
+  }
+
+  // Re-run the analysis for the shown project, e.g. after a build
+  async refresh(): Promise<void> {
+    this.healthCache.clear();
+    if (this.projectRoot) {
+      await this.update(++this.updateSerial);
+    }
+  }
+
+  // Let the user open the graph, cycles or unused modules of the shown project
+  async showMenu(): Promise<void> {
+    const projectRoot = this.projectRoot;
+    if (!projectRoot) {
+      return;
+    }
+    const health = this.healthCache.get(projectRoot);
+    const counts = health && !(health instanceof Error) ? health : undefined;
+    const selected = await vscode.window.showQuickPick([
+      { label: '$(type-hierarchy) Show Dependency Graph', description: counts && plural(counts.moduleCount, 'module'), command: this.commands.showGraph },
+      { label: '$(sync) Show Dependency Cycles', description: counts && plural(counts.cycleCount, 'cycle'), command: this.commands.showCycles },
+      { label: '$(circle-slash) Show Unused Modules', description: counts && `${counts.unusedModuleCount} unused`, command: this.commands.showUnusedModules }
+    ], { placeHolder: counts?.projectName ?? projectRoot });
+    if (selected) {
+      await vscode.commands.executeCommand(selected.command, projectRoot);
+    }
+  }
+
+  private async update(serial: number) {
+    const projectRoot = this.projectRoot!;
+    let health = this.healthCache.get(projectRoot);
+    if (!health) {
+      this.item.text = '$(sync~spin) Bibimbob';
+      this.item.tooltip = 'Analyzing the project dependencies...';
+      this.item.backgroundColor = undefined;
+      this.item.show();
+      try {
+        health = await this.loadHealth(projectRoot);
+      } catch (error) {
+        health = error instanceof Error ? error : new Error(String(error));
+      }
+      this.healthCache.set(projectRoot, health);
+      if (serial !== this.updateSerial) {
+        return;
+      }
+    }
+
+    if (health instanceof Error) {
+      // Usually a project that has not been built yet; the next build updates the item
+      this.item.text = '$(warning) Bibimbob';
+      this.item.tooltip = `Could not analyze the project dependencies: ${health.message}`;
+      this.item.backgroundColor = undefined;
+    } else {
+      this.item.text = `$(type-hierarchy) ${health.moduleCount} $(sync) ${health.cycleCount} $(circle-slash) ${health.unusedModuleCount}`;
+      this.item.tooltip = [
+        `Bibimbob: ${health.projectName}`,
+        `${plural(health.moduleCount, 'module')}, ${plural(health.cycleCount, 'dependency cycle')}, ${plural(health.unusedModuleCount, 'unused module')}`,
+        'Click to show the dependency graph, cycles or unused modules'
+      ].join('\n');
+      // Cycles are the problem worth noticing without running a command
+      this.item.backgroundColor = health.cycleCount > 0 ? new vscode.ThemeColor('statusBarItem.warningBackground') : undefined;
+    }
+    this.item.show();
+  }
+
+  dispose() {
+    this.item.dispose();
+  }
+}
@@ -0,0 +1,35 @@
+// Part of the graph export that runs in the graph webview. The webview script embeds the source
+// of inlineComputedStyles, so the function must not use anything outside its own body.
+
+// The parts of the DOM that inlineComputedStyles uses, so it can be tested without a browser
+export interface StyledElement {
+  querySelectorAll(selectors: string): ArrayLike<StyledElement>;
+  style: { setProperty(property: string, value: string): void };
+}
+
+export interface ComputedStyle {
+  getPropertyValue(property: string): string;
+}
+
+// Copy the paint of every element of a rendered graph onto its clone. Highlights, such as the
+// edges of the focused module, and the theme colors come from the panel's stylesheet, which a
+// standalone SVG file does not have.
+export function inlineComputedStyles(
+  source: StyledElement,
+  clone: StyledElement,
+  getComputedStyle: (element: StyledElement) => ComputedStyle
+): void {
+  const properties = ['fill', 'fill-opacity', 'stroke', 'stroke-opacity', 'stroke-width', 'stroke-dasharray', 'opacity'];
+  // A deep clone has the same elements in the same order
+  const sourceElements = source.querySelectorAll('*');
+  const cloneElements = clone.querySelectorAll('*');
+  for (let i = 0; i < sourceElements.length && i < cloneElements.length; i++) {
+    const computed = getComputedStyle(sourceElements[i]);
+    for (const property of properties) {
+      const value = computed.getPropertyValue(property);
+      if (value) {
+        cloneElements[i].style.setProperty(property, value);
+      }
+    }
+  }
+}
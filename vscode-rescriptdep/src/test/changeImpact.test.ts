@@ -0,0 +1,102 @@
+import * as assert from 'assert';
+
+import { getEdges, parseDependencyGraph } from '../dependencyGraph';
+import {
+	DEFAULT_TEST_MODULE_PATTERNS,
+	computeChangeImpact,
+	createImpactGraph,
+	findAffectedTests,
+	findModulesForFiles,
+	createTestCommand,
+	formatImpactReport,
+	getModuleNameForFile
+} from '../changeImpact';
+
+// App -> Page -> Button, App -> Logger-App (a namespaced module), Other is unrelated
+const graph = parseDependencyGraph(JSON.stringify({
+	modules: [
+		{ name: 'App', path: '/repo/src/App.res', dependencies: [{ name: 'Page' }, { name: 'Logger-App' }] },
+		{ name: 'Page', path: '/repo/src/Page.res', dependencies: [{ name: 'Button' }] },
+		{ name: 'Button', path: '/repo/src/ui/Button.res', dependencies: [] },
+		{ name: 'Logger-App', path: '/repo/src/Logger.res', dependencies: [] },
+		{ name: 'Other', path: '/repo/src/Other.res', dependencies: [] }
+	]
+}));
+
+suite('Change Impact', () => {
+	test('maps changed source files to modules', () => {
+		assert.strictEqual(getModuleNameForFile('/repo/src/button.resi'), 'Button');
+		assert.strictEqual(getModuleNameForFile('/repo/src/Button.bs.js'), undefined);
+		assert.deepStrictEqual(findModulesForFiles(graph, [
+			'/repo/src/ui/Button.resi',
+			'/repo/lib/Logger.res',
+			'/repo/README.md',
+			'/repo/src/Removed.res'
+		], '/repo'), ['Button', 'Logger-App']);
+	});
+
+	test('ignores same-named modules of other packages', () => {
+		// Both packages have a Utils module; the CLI reported no path for this one
+		const webGraph = parseDependencyGraph(JSON.stringify({
+			modules: [
+				{ name: 'Page', path: '/repo/packages/web/src/Page.res', dependencies: [{ name: 'Utils' }] },
+				{ name: 'Utils', dependencies: [] }
+			]
+		}));
+		const packageRoots = ['/repo', '/repo/packages/web', '/repo/packages/other'];
+
+		assert.deepStrictEqual(computeChangeImpact(webGraph, ['/repo/packages/other/src/Utils.res'], '/repo/packages/web', packageRoots),
+			{ changed: [], affected: [] });
+		assert.deepStrictEqual(computeChangeImpact(webGraph, ['/repo/packages/web/src/Utils.res'], '/repo/packages/web', packageRoots),
+			{ changed: ['Utils'], affected: ['Page'] });
+		// The repository root is a project too, but the packages nested in it are not part of it
+		assert.deepStrictEqual(findModulesForFiles(webGraph, ['/repo/packages/other/src/Utils.res'], '/repo', packageRoots), []);
+	});
+
+	test('separates changed modules from their transitive dependents', () => {
+		const impact = computeChangeImpact(graph, ['/repo/src/ui/Button.res', '/repo/src/Page.res'], '/repo');
+
+		assert.deepStrictEqual(impact, { changed: ['Button', 'Page'], affected: ['App'] });
+		assert.deepStrictEqual(getEdges(createImpactGraph(graph, impact)), [
+			{ from: 'App', to: 'Page' },
+			{ from: 'Page', to: 'Button' }
+		]);
+		assert.strictEqual(formatImpactReport(impact, 'origin/main'), [
+			'Changed modules since origin/main (2):',
+			'- Button',
+			'- Page',
+			'',
+			'Affected modules (1):',
+			'- App',
+			''
+		].join('\n'));
+	});
+
+	test('selects the test modules that depend on a change', () => {
+		const testGraph = parseDependencyGraph(JSON.stringify({
+			modules: [
+				{ name: 'Page_test', path: '/repo/tests/Page_test.res', dependencies: [{ name: 'Page' }] },
+				{ name: 'ButtonTest', path: '/repo/tests/ui tests/ButtonTest.res', dependencies: [{ name: 'Button' }] },
+				{ name: 'Other_test', path: '/repo/tests/Other_test.res', dependencies: [{ name: 'Other' }] },
+				{ name: 'Page', path: '/repo/src/Page.res', dependencies: [{ name: 'Button' }] },
+				{ name: 'Button', path: '/repo/src/Button.res', dependencies: [] },
+				{ name: 'Other', path: '/repo/src/Other.res', dependencies: [] }
+			]
+		}));
+		const impact = computeChangeImpact(testGraph, ['/repo/src/Button.res'], '/repo');
+		const tests = findAffectedTests(testGraph, impact, DEFAULT_TEST_MODULE_PATTERNS, '/repo');
+
+		assert.deepStrictEqual(tests, ['ButtonTest', 'Page_test']);
+		assert.deepStrictEqual(findAffectedTests(testGraph, impact, ['tests/ui tests/**'], '/repo'), ['ButtonTest']);
+		assert.deepStrictEqual(createTestCommand('npx rescript-test ${files} --name=${modules}', testGraph, tests, '/repo'), {
+			command: 'npx',
+			args: [
+				{ value: 'rescript-test', isPlaceholder: false },
+				{ value: 'tests/ui tests/ButtonTest.res', isPlaceholder: true },
+				{ value: 'tests/Page_test.res', isPlaceholder: true },
+				{ value: '--name=ButtonTest', isPlaceholder: true },
+				{ value: '--name=Page_test', isPlaceholder: true }
+			]
+		});
+	});
+});
@@ -0,0 +1,80 @@
+import * as assert from 'assert';
+
+import { parseDependencyGraph } from '../dependencyGraph';
+import { parseRulesFile } from '../dependencyRules';
+import { CheckInput, ProjectCheckResult, collectFindings, formatSarif, formatText, hasProblems } from '../checkReport';
+
+const sources: Record<string, string> = {
+	'/repo/src/UiButton.res': 'let render = () => {\n  DbClient.query()\n}\n',
+	'/repo/src/A.res': 'open B\n',
+	'/repo/src/B.res': 'let x = A.y\n'
+};
+
+function checkInput(overrides: Partial<CheckInput> = {}): CheckInput {
+	return {
+		graph: parseDependencyGraph(JSON.stringify({
+			modules: [
+				{ name: 'Main', path: '/repo/src/Main.res', dependencies: [{ name: 'UiButton' }, { name: 'A' }] },
+				{ name: 'UiButton', path: '/repo/src/UiButton.res', dependencies: [{ name: 'DbClient' }] },
+				{ name: 'DbClient', path: '/repo/src/DbClient.res', dependencies: [] },
+				{ name: 'A', path: '/repo/src/A.res', dependencies: [{ name: 'B' }] },
+				{ name: 'B', path: '/repo/src/B.res', dependencies: [{ name: 'A' }] },
+				{ name: 'Legacy', path: '/repo/src/Legacy.res', dependencies: [] }
+			]
+		})),
+		unusedModules: ['Main', 'Legacy'],
+		rules: { root: '/repo', rules: parseRulesFile('{"rules": [{"from": "Ui*", "deny": "Db*"}]}') },
+		checks: ['unused', 'cycles', 'rules'],
+		ignoreUnused: ['Main'],
+		projectRoot: '/repo',
+		readSource: filePath => sources[filePath],
+		...overrides
+	};
+}
+
+suite('Check Report', () => {
+	test('collects rule violations, cycles and unused modules with their locations', () => {
+		const findings = collectFindings(checkInput());
+
+		assert.deepStrictEqual(findings.map(finding => [finding.ruleId, finding.level, finding.module, finding.line, finding.column]), [
+			['dependency-rule', 'error', 'UiButton', 2, 3],
+			['dependency-cycle', 'warning', 'A', 1, 6],
+			['dependency-cycle', 'warning', 'B', 1, 9],
+			['unused-module', 'warning', 'Legacy', undefined, undefined]
+		]);
+		assert.strictEqual(findings[1].message, 'Module A is part of a dependency cycle: A → B → A');
+		assert.strictEqual(findings[3].filePath, '/repo/src/Legacy.res');
+	});
+
+	test('runs only the selected checks and fails only on errors and warnings', () => {
+		const hintRules = { root: '/repo', rules: parseRulesFile('{"rules": [{"from": "Ui*", "deny": "Db*", "severity": "hint"}]}') };
+		const results: ProjectCheckResult[] = [{
+			projectRoot: '/repo',
+			projectName: 'app',
+			findings: collectFindings(checkInput({ checks: ['rules'], rules: hintRules }))
+		}];
+
+		assert.deepStrictEqual(results[0].findings.map(finding => finding.level), ['note']);
+		assert.strictEqual(hasProblems(results), false);
+		assert.strictEqual(formatText(results, '/repo'), [
+			'app (.)',
+			'  src/UiButton.res:2:3  note     UiButton must not depend on DbClient: Ui* must not depend on Db*  [dependency-rule]',
+			'',
+			'1 problem (0 errors, 0 warnings, 1 note)',
+			''
+		].join('\n'));
+	});
+
+	test('writes SARIF results with relative file locations', () => {
+		const results: ProjectCheckResult[] = [{ projectRoot: '/repo', projectName: 'app', findings: collectFindings(checkInput()) }];
+		const sarif = JSON.parse(formatSarif(results, '/repo'));
+
+		assert.strictEqual(sarif.version, '2.1.0');
+		assert.deepStrictEqual(sarif.runs[0].tool.driver.rules.map((rule: { id: string }) => rule.id), ['unused-module', 'dependency-cycle', 'dependency-rule']);
+		assert.deepStrictEqual(sarif.runs[0].results[0].locations[0].physicalLocation, {
+			artifactLocation: { uri: 'src/UiButton.res' },
+			region: { startLine: 2, startColumn: 3 }
+		});
+		assert.deepStrictEqual(sarif.runs[0].results[3].locations[0].physicalLocation, { artifactLocation: { uri: 'src/Legacy.res' } });
+	});
+});
@@ -0,0 +1,43 @@
+import * as assert from 'assert';
+
+import { findCycles, findModuleNameAt, findModuleReference } from '../cycles';
+import { parseDependencyGraph } from '../dependencyGraph';
+
+suite('Dependency Cycles', () => {
+	test('describes each cycle with a loop and its closing edges', () => {
+		const graph = parseDependencyGraph(JSON.stringify({
+			modules: [
+				{ name: 'A', dependencies: [{ name: 'B' }] },
+				{ name: 'B', dependencies: [{ name: 'C' }] },
+				{ name: 'C', dependencies: [{ name: 'A' }, { name: 'B' }] },
+				{ name: 'D', dependencies: [{ name: 'A' }] }
+			]
+		}));
+
+		assert.deepStrictEqual(findCycles(graph), [{
+			members: ['A', 'B', 'C'],
+			loop: ['A', 'B', 'C', 'A'],
+			closingEdges: [{ from: 'C', to: 'A' }, { from: 'C', to: 'B' }]
+		}]);
+	});
+
+	test('finds the first reference to a module in source text', () => {
+		const source = '// Logger is used below\nopen Belt\nlet log = x => Logger.log(x)\nlet y = MyLogger.x\n';
+
+		assert.deepStrictEqual(findModuleReference(source, 'Logger'), { line: 2, character: 15, length: 6 });
+		assert.deepStrictEqual(findModuleReference(source, 'Belt-App'), { line: 1, character: 5, length: 4 });
+		assert.strictEqual(findModuleReference(source, 'Db'), undefined);
+	});
+
+	test('finds the module named at a position', () => {
+		const line = 'let s = Utils.formatDate(Foo.Bar.x, Some(myUtils)) // Db.x';
+
+		assert.deepStrictEqual(findModuleNameAt(line, 10), { name: 'Utils', character: 8 });
+		assert.deepStrictEqual(findModuleNameAt(line, 25), { name: 'Foo', character: 25 });
+		assert.strictEqual(findModuleNameAt(line, 29), undefined);
+		assert.strictEqual(findModuleNameAt(line, 37), undefined);
+		assert.strictEqual(findModuleNameAt(line, 55), undefined);
+		assert.deepStrictEqual(findModuleNameAt('  open! Logger', 9), { name: 'Logger', character: 8 });
+		assert.deepStrictEqual(findModuleNameAt('include Belt.Array', 9), { name: 'Belt', character: 8 });
+	});
+});
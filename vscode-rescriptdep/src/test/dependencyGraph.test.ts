@@ -0,0 +1,154 @@
+import * as assert from 'assert';
+
+import {
+	createFocusedGraph,
+	createPathGraph,
+	createSubgraph,
+	findShortestPath,
+	findSimplePaths,
+	findStronglyConnectedComponents,
+	getEdges,
+	parseDependencyGraph,
+	serializeDependencyGraph
+} from '../dependencyGraph';
+import { generateDot } from '../dotGraph';
+
+const cliOutput = JSON.stringify({
+	modules: [
+		{
+			name: 'App',
+			path: '/project/src/App.res',
+			dependencies: [
+				{ name: 'Logger', path: '/project/src/Logger.res' },
+				{ name: 'ReactRouter', path: '/project/node_modules/bindings/src/ReactRouter.res' }
+			],
+			dependents: [],
+			fan_in: 0,
+			fan_out: 2,
+			in_cycle: false
+		},
+		{
+			name: 'Logger',
+			path: '/project/src/Logger.res',
+			dependencies: [{ name: 'Foo-Bar', path: '/project/src/Foo.res' }],
+			dependents: [{ name: 'App', path: '/project/src/App.res' }],
+			fan_in: 1,
+			fan_out: 1,
+			in_cycle: true
+		},
+		{
+			name: 'Foo-Bar',
+			path: '/project/src/Foo.res',
+			dependencies: [{ name: 'Logger', path: '/project/src/Logger.res' }],
+			dependents: [{ name: 'Logger', path: '/project/src/Logger.res' }],
+			fan_in: 1,
+			fan_out: 1,
+			in_cycle: true
+		}
+	],
+	cycles: [['Foo-Bar', 'Logger', 'Foo-Bar']],
+	metrics: { total_modules: 3 }
+});
+
+suite('Dependency Graph Model', () => {
+	test('parses modules, dependents and external dependencies', () => {
+		const graph = parseDependencyGraph(cliOutput);
+
+		assert.deepStrictEqual(Array.from(graph.modules.keys()).sort(), ['App', 'Foo-Bar', 'Logger', 'ReactRouter']);
+		assert.deepStrictEqual(graph.modules.get('Logger')!.dependents, ['App', 'Foo-Bar']);
+		assert.strictEqual(graph.modules.get('ReactRouter')!.external, true);
+		assert.strictEqual(graph.modules.get('ReactRouter')!.path, '/project/node_modules/bindings/src/ReactRouter.res');
+		assert.strictEqual(graph.modules.get('Logger')!.inCycle, true);
+		assert.deepStrictEqual(graph.cycles, [['Foo-Bar', 'Logger', 'Foo-Bar']]);
+	});
+
+	test('parses the --no-dependents module list', () => {
+		const graph = parseDependencyGraph('["App", "Unused"]');
+
+		assert.deepStrictEqual(Array.from(graph.modules.keys()), ['App', 'Unused']);
+		assert.strictEqual(getEdges(graph).length, 0);
+	});
+
+	test('rejects output that is not a dependency graph', () => {
+		assert.throws(() => parseDependencyGraph('digraph {}'), /Could not parse/);
+		assert.throws(() => parseDependencyGraph('{"cycles": []}'), /missing "modules"/);
+	});
+
+	test('finds strongly connected components', () => {
+		const graph = parseDependencyGraph(cliOutput);
+
+		assert.deepStrictEqual(findStronglyConnectedComponents(graph), [['Foo-Bar', 'Logger']]);
+	});
+
+	test('serializes graphs back into the CLI JSON format', () => {
+		const graph = parseDependencyGraph(cliOutput);
+		const serialized = serializeDependencyGraph(graph);
+
+		assert.deepStrictEqual(serialized.modules!.map(module => module.name), ['App', 'Foo-Bar', 'Logger']);
+		assert.deepStrictEqual(parseDependencyGraph(JSON.stringify(serialized)), graph);
+	});
+
+	test('creates subgraphs that only keep edges between included modules', () => {
+		const subgraph = createSubgraph(parseDependencyGraph(cliOutput), ['App', 'Logger']);
+
+		assert.deepStrictEqual(getEdges(subgraph), [{ from: 'App', to: 'Logger' }]);
+		assert.deepStrictEqual(subgraph.modules.get('Logger')!.dependents, ['App']);
+		assert.deepStrictEqual(subgraph.cycles, []);
+	});
+
+	test('creates focused graphs by depth and direction', () => {
+		const graph = parseDependencyGraph(cliOutput);
+		const moduleNames = (focused: ReturnType<typeof createFocusedGraph>) => Array.from(focused.modules.keys()).sort();
+
+		assert.deepStrictEqual(moduleNames(createFocusedGraph(graph, 'App', { depth: 1, direction: 'dependencies' })), ['App', 'Logger', 'ReactRouter']);
+		assert.deepStrictEqual(moduleNames(createFocusedGraph(graph, 'App', { depth: 'all', direction: 'dependencies' })), ['App', 'Foo-Bar', 'Logger', 'ReactRouter']);
+		assert.deepStrictEqual(moduleNames(createFocusedGraph(graph, 'Foo-Bar', { depth: 1, direction: 'dependents' })), ['Foo-Bar', 'Logger']);
+		assert.deepStrictEqual(moduleNames(createFocusedGraph(graph, 'Foo-Bar', { depth: 2, direction: 'dependents' })), ['App', 'Foo-Bar', 'Logger']);
+		assert.deepStrictEqual(moduleNames(createFocusedGraph(graph, 'ReactRouter', { depth: 'all', direction: 'both' })), ['App', 'ReactRouter']);
+		assert.strictEqual(createFocusedGraph(graph, 'Missing', { depth: 1, direction: 'both' }).modules.size, 0);
+	});
+
+	test('finds shortest and simple dependency paths', () => {
+		// App -> Logger -> Db, App -> Api -> Http -> Db, App -> Api -> Db
+		const graph = parseDependencyGraph(JSON.stringify({
+			modules: [
+				{ name: 'App', dependencies: [{ name: 'Api' }, { name: 'Logger' }] },
+				{ name: 'Api', dependencies: [{ name: 'Db' }, { name: 'Http' }] },
+				{ name: 'Http', dependencies: [{ name: 'Db' }] },
+				{ name: 'Logger', dependencies: [{ name: 'Db' }] },
+				{ name: 'Db', dependencies: [{ name: 'Logger' }] }
+			]
+		}));
+
+		assert.deepStrictEqual(findShortestPath(graph, 'App', 'Db'), ['App', 'Api', 'Db']);
+		assert.strictEqual(findShortestPath(graph, 'Db', 'App'), undefined);
+		assert.deepStrictEqual(findSimplePaths(graph, 'App', 'Db', 10), [
+			['App', 'Api', 'Db'],
+			['App', 'Logger', 'Db'],
+			['App', 'Api', 'Http', 'Db']
+		]);
+		assert.deepStrictEqual(findSimplePaths(graph, 'App', 'Db', 1), [['App', 'Api', 'Db']]);
+
+		const pathGraph = createPathGraph(graph, [['App', 'Logger', 'Db']]);
+		assert.deepStrictEqual(getEdges(pathGraph), [{ from: 'App', to: 'Logger' }, { from: 'Logger', to: 'Db' }]);
+	});
+});
+
+suite('DOT Generation', () => {
+	test('quotes namespaced module names and applies edge styles', () => {
+		const dot = generateDot(parseDependencyGraph(cliOutput), {
+			edgeAttributes: edge => edge.to === 'Logger' ? { color: 'steelblue', penwidth: 1.5 } : undefined
+		});
+
+		assert.ok(dot.includes('"Foo-Bar" [label="Foo-Bar", tooltip="/project/src/Foo.res"];'));
+		assert.ok(dot.includes('"App" -> "Logger" [color="steelblue", penwidth=1.5];'));
+		assert.ok(dot.includes('"Logger" -> "Foo-Bar";'));
+		assert.ok(dot.includes('label="Cyclic dependency";'));
+	});
+
+	test('escapes quotes in identifiers', () => {
+		const dot = generateDot(parseDependencyGraph('["Say\\"Hi"]'), { showCycles: false });
+
+		assert.ok(dot.includes('"Say\\"Hi" [label="Say\\"Hi"];'));
+	});
+});
@@ -0,0 +1,61 @@
+import * as assert from 'assert';
+
+import { parseDependencyGraph } from '../dependencyGraph';
+import { describeViolation, evaluateRules, globToRegExp, parseRulesFile } from '../dependencyRules';
+
+const graph = parseDependencyGraph(JSON.stringify({
+	modules: [
+		{
+			name: 'UiButton',
+			path: '/repo/apps/web/src/UiButton.res',
+			dependencies: [{ name: 'DbClient' }, { name: 'Theme' }]
+		},
+		{
+			name: 'ReactRouter',
+			path: '/repo/packages/bindings/src/ReactRouter.res',
+			dependencies: [{ name: 'App', path: '/repo/apps/web/src/App.res' }]
+		},
+		{ name: 'DbClient', path: '/repo/apps/web/src/DbClient.res', dependencies: [] },
+		{ name: 'Theme', path: '/repo/apps/web/src/Theme.res', dependencies: [] }
+	]
+}));
+
+suite('Dependency Rules', () => {
+	test('matches module names and relative paths with globs', () => {
+		assert.ok(globToRegExp('Ui*').test('UiButton'));
+		assert.ok(!globToRegExp('Ui*').test('Button'));
+		assert.ok(globToRegExp('{Db,Sql}*').test('SqlQuery'));
+		assert.ok(globToRegExp('apps/**').test('apps/web/src/App.res'));
+		assert.ok(globToRegExp('**/src/*.res').test('src/App.res'));
+		assert.ok(!globToRegExp('apps/*').test('apps/web/src/App.res'));
+	});
+
+	test('reports denied and not allowed dependencies', () => {
+		const rules = parseRulesFile(JSON.stringify({
+			rules: [
+				{ from: 'Ui*', deny: 'Db*', message: 'UI must go through the API layer' },
+				{ from: 'packages/bindings/**', deny: ['apps/**'] },
+				{ from: 'UiButton', allow: ['Theme', 'Db*'], severity: 'warning' }
+			]
+		}));
+		const violations = evaluateRules(graph, { root: '/repo', rules });
+
+		assert.deepStrictEqual(violations.map(v => [v.edge.from, v.edge.to, v.ruleIndex, v.kind]), [
+			['ReactRouter', 'App', 1, 'denied'],
+			['UiButton', 'DbClient', 0, 'denied']
+		]);
+		assert.strictEqual(describeViolation(violations[1]), 'UiButton must not depend on DbClient: UI must go through the API layer');
+
+		const allowOnly = parseRulesFile(JSON.stringify({ rules: [{ from: 'UiButton', allow: 'Theme' }] }));
+		const [notAllowed] = evaluateRules(graph, { root: '/repo', rules: allowOnly });
+		assert.strictEqual(describeViolation(notAllowed), 'UiButton must not depend on DbClient: UiButton may only depend on Theme');
+		assert.strictEqual(notAllowed.rule.severity, 'error');
+	});
+
+	test('rejects invalid rules files', () => {
+		assert.throws(() => parseRulesFile('{'), /Could not parse \.bibimbob\.json/);
+		assert.throws(() => parseRulesFile('{"rules": [{"from": "Ui*"}]}'), /Rule 1: "deny" or "allow" is required/);
+		assert.throws(() => parseRulesFile('{"rules": [{"from": "Ui*", "deny": "{Db"}]}'), /Rule 1: Unclosed "\{"/);
+		assert.throws(() => parseRulesFile('{"rules": [{"from": "Ui*", "deny": "Db*", "severity": "fatal"}]}'), /"severity" must be one of/);
+	});
+});
@@ -0,0 +1,62 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { getEdges, parseDependencyGraph } from '../dependencyGraph';
+import { countChanges, createSnapshot, diffGraphs, loadSnapshots, readSnapshotGraph, saveSnapshot } from '../graphSnapshots';
+
+const before = parseDependencyGraph(JSON.stringify({
+	modules: [
+		{ name: 'App', path: '/repo/src/App.res', dependencies: [{ name: 'Legacy' }, { name: 'Api' }] },
+		{ name: 'Legacy', path: '/repo/src/Legacy.res', dependencies: [] },
+		{ name: 'Api', path: '/repo/src/Api.res', dependencies: [] }
+	]
+}));
+const after = parseDependencyGraph(JSON.stringify({
+	modules: [
+		{ name: 'App', path: '/repo/src/App.res', dependencies: [{ name: 'Api' }, { name: 'Client' }] },
+		{ name: 'Api', path: '/repo/src/Api.res', dependencies: [] },
+		{ name: 'Client', path: '/repo/src/Client.res', dependencies: [{ name: 'Api' }] }
+	]
+}));
+
+suite('Graph Snapshots', () => {
+	test('merges two graphs and marks added, removed and unchanged parts', () => {
+		const diff = diffGraphs(before, after);
+
+		assert.deepStrictEqual(Array.from(diff.modules).sort(), [
+			['Api', 'unchanged'],
+			['App', 'unchanged'],
+			['Client', 'added'],
+			['Legacy', 'removed']
+		]);
+		assert.deepStrictEqual(Array.from(diff.edges).sort(), [
+			['App -> Api', 'unchanged'],
+			['App -> Client', 'added'],
+			['App -> Legacy', 'removed'],
+			['Client -> Api', 'added']
+		]);
+		assert.strictEqual(getEdges(diff.graph).length, 4);
+		assert.deepStrictEqual(countChanges(diff), { addedModules: 1, removedModules: 1, addedEdges: 2, removedEdges: 1 });
+	});
+
+	test('stores snapshots and replaces a snapshot of the same name', () => {
+		const storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bibimbob-snapshots-'));
+		try {
+			saveSnapshot(storageDir, createSnapshot('before refactor', '/repo', before, new Date('2024-05-01T10:00:00Z')));
+			saveSnapshot(storageDir, createSnapshot('release', '/repo', before, new Date('2024-05-02T10:00:00Z')));
+			saveSnapshot(storageDir, createSnapshot('before refactor', '/repo', after, new Date('2024-05-03T10:00:00Z')));
+
+			const snapshots = loadSnapshots(storageDir);
+			assert.deepStrictEqual(snapshots.map(snapshot => [snapshot.name, snapshot.createdAt]), [
+				['before refactor', '2024-05-03T10:00:00.000Z'],
+				['release', '2024-05-02T10:00:00.000Z']
+			]);
+			const restored = readSnapshotGraph(snapshots[0]);
+			assert.deepStrictEqual(getEdges(restored), getEdges(after));
+		} finally {
+			fs.rmSync(storageDir, { recursive: true, force: true });
+		}
+	});
+});
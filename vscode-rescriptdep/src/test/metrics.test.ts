@@ -0,0 +1,30 @@
+import * as assert from 'assert';
+
+import { parseDependencyGraph } from '../dependencyGraph';
+import { computeModuleMetrics } from '../metrics';
+
+suite('Module Metrics', () => {
+	test('computes coupling, transitive dependencies and topological depth', () => {
+		// App -> Page -> (A <-> B) -> Util, with Js as an external dependency
+		const graph = parseDependencyGraph(JSON.stringify({
+			modules: [
+				{ name: 'App', dependencies: [{ name: 'Page' }, { name: 'Util' }] },
+				{ name: 'Page', dependencies: [{ name: 'A' }] },
+				{ name: 'A', dependencies: [{ name: 'B' }] },
+				{ name: 'B', dependencies: [{ name: 'A' }, { name: 'Util' }] },
+				{ name: 'Util', dependencies: [{ name: 'Js' }] }
+			]
+		}));
+		const metrics = computeModuleMetrics(graph);
+
+		assert.deepStrictEqual(metrics.map(m => [m.name, m.fanIn, m.fanOut, m.transitiveDependencies, m.depth]), [
+			['A', 2, 1, 3, 2],
+			['App', 0, 2, 5, 4],
+			['B', 1, 2, 3, 2],
+			['Page', 1, 1, 4, 3],
+			['Util', 2, 1, 1, 1]
+		]);
+		assert.strictEqual(metrics.find(m => m.name === 'App')!.instability, 1);
+		assert.strictEqual(metrics.find(m => m.name === 'Util')!.instability, 1 / 3);
+	});
+});
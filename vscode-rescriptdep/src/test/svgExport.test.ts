@@ -0,0 +1,53 @@
+import * as assert from 'assert';
+
+import { ComputedStyle, StyledElement, inlineComputedStyles } from '../svgExport';
+
+interface FakeElement extends StyledElement {
+	className: string;
+	inlineStyle: Map<string, string>;
+}
+
+function fakeElement(className: string): FakeElement {
+	const inlineStyle = new Map<string, string>();
+	return {
+		className,
+		inlineStyle,
+		querySelectorAll: () => [],
+		style: { setProperty: (property, value) => inlineStyle.set(property, value) }
+	};
+}
+
+function fakeSvg(children: FakeElement[]): StyledElement {
+	return { querySelectorAll: () => children, style: { setProperty: () => undefined } };
+}
+
+suite('SVG Export', () => {
+	test('keeps the focus highlight that only the panel stylesheet applies', () => {
+		// An edge into the focused module: the DOT colors say gray, the stylesheet draws it blue
+		const rendered = [fakeElement('edge dependent-edge'), fakeElement('path'), fakeElement('polygon')];
+		const clone = [fakeElement('edge dependent-edge'), fakeElement('path'), fakeElement('polygon')];
+		const computedStyles: Record<string, Record<string, string>> = {
+			path: { stroke: 'rgb(70, 130, 180)', 'stroke-width': '2px', fill: 'none', opacity: '1' },
+			polygon: { stroke: 'rgb(70, 130, 180)', fill: 'rgb(70, 130, 180)', opacity: '1' }
+		};
+		const getComputedStyle = (element: StyledElement): ComputedStyle => ({
+			getPropertyValue: property => computedStyles[(element as FakeElement).className]?.[property] ?? ''
+		});
+
+		inlineComputedStyles(fakeSvg(rendered), fakeSvg(clone), getComputedStyle);
+
+		assert.strictEqual(clone[0].inlineStyle.size, 0);
+		assert.deepStrictEqual(Object.fromEntries(clone[1].inlineStyle), computedStyles.path);
+		assert.strictEqual(clone[2].inlineStyle.get('fill'), 'rgb(70, 130, 180)');
+	});
+
+	test('can be embedded in the webview as source text', () => {
+		const embedded = new Function(`return (${inlineComputedStyles.toString()});`)() as typeof inlineComputedStyles;
+		const rendered = [fakeElement('path')];
+		const clone = [fakeElement('path')];
+
+		embedded(fakeSvg(rendered), fakeSvg(clone), () => ({ getPropertyValue: property => property === 'opacity' ? '0.35' : '' }));
+
+		assert.deepStrictEqual(Object.fromEntries(clone[0].inlineStyle), { opacity: '0.35' });
+	});
+});
@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+
+import { findTopLevelLetBindings, getUsingModules } from '../valueBindings';
+
+suite('Top-Level Let Bindings', () => {
+	test('finds bindings at column 0 with their name range', () => {
+		const source = [
+			'let add = (a, b) => a + b',
+			'let rec loop = n => n == 0 ? 0 : loop(n - 1)',
+			'let typed: int = 1',
+			'module U = {',
+			'  let nested = 1',
+			'}',
+		].join('\n');
+
+		assert.deepStrictEqual(findTopLevelLetBindings(source), [
+			{ name: 'add', line: 0, startCharacter: 4, endCharacter: 7 },
+			{ name: 'loop', line: 1, startCharacter: 8, endCharacter: 12 },
+			{ name: 'typed', line: 2, startCharacter: 4, endCharacter: 9 },
+		]);
+	});
+
+	test('skips intentionally unused bindings and block comments', () => {
+		const source = [
+			'let _ = Js.log("side effect")',
+			'let _unused = 1',
+			'/*',
+			'let commented = 1',
+			'*/',
+			'let used = 2',
+		].join('\n');
+
+		assert.deepStrictEqual(findTopLevelLetBindings(source).map(binding => binding.name), ['used']);
+	});
+
+	test('lists using modules with the most uses first', () => {
+		const usage = {
+			count: '5',
+			modules: [
+				{ name: 'Utils', count: 0 },
+				{ name: 'Logger', count: 1 },
+				{ name: 'App', count: 4 },
+			],
+		};
+
+		assert.deepStrictEqual(getUsingModules(usage).map(module => module.name), ['App', 'Logger']);
+	});
+});
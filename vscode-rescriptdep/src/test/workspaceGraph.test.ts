@@ -0,0 +1,119 @@
+import * as assert from 'assert';
+
+import { getEdges, parseDependencyGraph } from '../dependencyGraph';
+import { generateDot } from '../dotGraph';
+import {
+	WorkspacePackage,
+	collapseToPackages,
+	getPackageMembers,
+	isCrossPackageEdge,
+	mergePackageGraphs
+} from '../workspaceGraph';
+
+// Shaped like the test/pnpm_workspace fixture: two apps with an `App` module each, sharing a bindings package
+function appPackage(name: string): WorkspacePackage {
+	return {
+		name,
+		projectRoot: `/repo/apps/${name}`,
+		graph: parseDependencyGraph(JSON.stringify({
+			modules: [{
+				name: 'App',
+				path: `/repo/apps/${name}/src/App.res`,
+				dependencies: [
+					{ name: 'ReactRouter', path: `/repo/apps/${name}/node_modules/@greenlabs/bindings/src/ReactRouter.res` },
+					{ name: 'RescriptCore', path: null }
+				]
+			}]
+		}))
+	};
+}
+
+const bindingsPackage: WorkspacePackage = {
+	name: '@greenlabs/bindings',
+	projectRoot: '/repo/packages/bindings',
+	graph: parseDependencyGraph(JSON.stringify({
+		modules: [{ name: 'ReactRouter', path: '/repo/packages/bindings/src/ReactRouter.res', dependencies: [] }]
+	}))
+};
+
+suite('Workspace Graph', () => {
+	test('qualifies modules by package and links cross-package dependencies', () => {
+		const workspace = mergePackageGraphs([appPackage('web'), appPackage('seller'), bindingsPackage]);
+
+		assert.deepStrictEqual(getEdges(workspace.graph), [
+			{ from: 'seller/App', to: '@greenlabs/bindings/ReactRouter' },
+			{ from: 'seller/App', to: 'RescriptCore' },
+			{ from: 'web/App', to: '@greenlabs/bindings/ReactRouter' },
+			{ from: 'web/App', to: 'RescriptCore' }
+		]);
+		assert.strictEqual(workspace.graph.modules.get('RescriptCore')!.external, true);
+		assert.deepStrictEqual(workspace.moduleOrigins.get('web/App'), { packageName: 'web', projectRoot: '/repo/apps/web', moduleName: 'App' });
+		assert.strictEqual(isCrossPackageEdge(workspace, { from: 'web/App', to: '@greenlabs/bindings/ReactRouter' }), true);
+		assert.strictEqual(isCrossPackageEdge(workspace, { from: 'web/App', to: 'RescriptCore' }), false);
+	});
+
+	test('collapses modules into packages weighted by imports', () => {
+		const web = appPackage('web');
+		web.graph = parseDependencyGraph(JSON.stringify({
+			modules: [
+				{ name: 'App', dependencies: [{ name: 'ReactRouter' }, { name: 'Nav' }] },
+				{ name: 'Nav', dependencies: [{ name: 'ReactRouter' }] }
+			]
+		}));
+		const packageGraph = collapseToPackages(mergePackageGraphs([web, appPackage('seller'), bindingsPackage]));
+
+		assert.deepStrictEqual(getEdges(packageGraph.graph), [
+			{ from: 'seller', to: '@greenlabs/bindings' },
+			{ from: 'web', to: '@greenlabs/bindings' }
+		]);
+		assert.strictEqual(packageGraph.importCounts.get('web -> @greenlabs/bindings'), 2);
+		assert.strictEqual(packageGraph.moduleCounts.get('web'), 2);
+		assert.strictEqual(packageGraph.graph.modules.get('web')!.path, '/repo/apps/web');
+	});
+
+	test('draws packages as clusters', () => {
+		const workspace = mergePackageGraphs([appPackage('web'), bindingsPackage]);
+		const dot = generateDot(workspace.graph, {
+			clusters: Array.from(getPackageMembers(workspace), ([label, members]) => ({ label, members }))
+		});
+
+		assert.ok(dot.includes('  subgraph cluster_group_0 {\n    label="web";\n    "web/App";\n  }'));
+		assert.ok(dot.includes('    label="@greenlabs/bindings";\n    "@greenlabs/bindings/ReactRouter";'));
+	});
+
+	test('keeps packages with the same name apart', () => {
+		const web = appPackage('web');
+		const toolsWeb = { ...appPackage('web'), projectRoot: '/repo/tools/web' };
+		const workspace = mergePackageGraphs([web, toolsWeb, bindingsPackage]);
+
+		assert.deepStrictEqual(workspace.packages.map(pkg => pkg.name), ['apps/web', 'tools/web', '@greenlabs/bindings']);
+		assert.deepStrictEqual(workspace.moduleOrigins.get('tools/web/App'), { packageName: 'tools/web', projectRoot: '/repo/tools/web', moduleName: 'App' });
+		assert.ok(workspace.graph.modules.has('apps/web/App'));
+	});
+
+	test('draws a cycle across packages outside of the package clusters', () => {
+		const web = appPackage('web');
+		web.graph = parseDependencyGraph(JSON.stringify({
+			modules: [{ name: 'App', dependencies: [{ name: 'ReactRouter' }] }]
+		}));
+		const bindings = {
+			...bindingsPackage,
+			graph: parseDependencyGraph(JSON.stringify({
+				modules: [
+					{ name: 'ReactRouter', dependencies: [{ name: 'App' }] },
+					{ name: 'Link', dependencies: [] }
+				]
+			}))
+		};
+		const workspace = mergePackageGraphs([web, bindings]);
+		const dot = generateDot(workspace.graph, {
+			clusters: Array.from(getPackageMembers(workspace), ([label, members]) => ({ label, members }))
+		});
+
+		// Every module is listed once: in the top-level cycle or in its package
+		assert.strictEqual(dot.split('\n').filter(line => line.trim() === '"web/App";').length, 1);
+		assert.ok(dot.includes('  subgraph cluster_group_0 {\n    label="web";\n  }'));
+		assert.ok(dot.includes('    label="@greenlabs/bindings";\n    "@greenlabs/bindings/Link";\n  }'));
+		assert.ok(dot.includes('  /* Cycles */\n  subgraph cluster_0 {'));
+	});
+});
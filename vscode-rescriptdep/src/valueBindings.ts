@@ -0,0 +1,66 @@
+// Locate top-level `let` bindings in ReScript source text.
+// The CLI identifies a binding by its name and 1-based line (`-vb`/`-vl`).
+
+export interface LetBinding {
+  name: string;
+  // 0-based line of the `let`
+  line: number;
+  // 0-based column range of the binding name
+  startCharacter: number;
+  endCharacter: number;
+}
+
+// Matches `let foo =`, `let rec foo =`, `let bar: int =` at the start of a line
+const TOP_LEVEL_LET_REGEX = /^let\s+(?:rec\s+)?([a-zA-Z_][a-zA-Z0-9_']*)/;
+
+// Find every `let` binding that starts at column 0, skipping block comments.
+// Bindings starting with `_` are intentionally unused and are ignored.
+export function findTopLevelLetBindings(text: string): LetBinding[] {
+  const bindings: LetBinding[] = [];
+  const lines = text.split(/\r?\n/);
+  let inBlockComment = false;
+
+  lines.forEach((lineText, line) => {
+    if (inBlockComment) {
+      if (lineText.includes('*/')) {
+        inBlockComment = false;
+      }
+      return;
+    }
+    if (lineText.startsWith('/*') && !lineText.includes('*/')) {
+      inBlockComment = true;
+      return;
+    }
+
+    const match = TOP_LEVEL_LET_REGEX.exec(lineText);
+    if (!match || match[1].startsWith('_')) {
+      return;
+    }
+
+    const name = match[1];
+    const startCharacter = match[0].length - name.length;
+    bindings.push({ name, line, startCharacter, endCharacter: startCharacter + name.length });
+  });
+
+  return bindings;
+}
+
+// Result of the CLI's value usage analysis (`-vb`/`-vl` with JSON output)
+export interface ModuleUsage {
+  name: string;
+  count: number;
+}
+
+export interface ValueUsage {
+  // Total usage count, or '?' when the output could not be interpreted
+  count: string;
+  // Per-module usage counts reported by the CLI
+  modules: ModuleUsage[];
+}
+
+// Modules that use the value at least once, most uses first
+export function getUsingModules(usage: ValueUsage): ModuleUsage[] {
+  return usage.modules
+    .filter(module => module.count > 0)
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+}
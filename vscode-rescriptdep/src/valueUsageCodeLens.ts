@@ -0,0 +1,88 @@
+import * as vscode from 'vscode';
+import { LetBinding, ValueUsage, findTopLevelLetBindings } from './valueBindings';
+
+export const SHOW_VALUE_USAGES = 'bibimbob.showValueUsages';
+
+// A lens above a top-level let binding; its command is filled in by resolveCodeLens
+class ValueUsageCodeLens extends vscode.CodeLens {
+  constructor(public readonly document: vscode.TextDocument, public readonly binding: LetBinding) {
+    super(new vscode.Range(binding.line, 0, binding.line, 0));
+  }
+}
+
+// Shows "N references" above every top-level let binding in .res files
+export class ValueUsageCodeLensProvider implements vscode.CodeLensProvider<ValueUsageCodeLens> {
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChangeCodeLenses = this.changeEmitter.event;
+  // Last resolved usage per document and binding name, shown while the document has unsaved edits
+  private readonly savedUsages = new Map<string, Map<string, ValueUsage>>();
+
+  constructor(
+    private readonly resolveUsage: (document: vscode.TextDocument, binding: LetBinding) => Promise<ValueUsage>,
+    private readonly isEnabled: () => boolean
+  ) { }
+
+  provideCodeLenses(document: vscode.TextDocument): ValueUsageCodeLens[] {
+    if (!this.isEnabled() || !document.fileName.endsWith('.res')) {
+      return [];
+    }
+    return findTopLevelLetBindings(document.getText()).map(binding => new ValueUsageCodeLens(document, binding));
+  }
+
+  // The CLI is only run for lenses that become visible. It reads the last build, whose line numbers
+  // only match the saved file, so documents with unsaved edits keep the counts from the last save.
+  async resolveCodeLens(codeLens: ValueUsageCodeLens, token: vscode.CancellationToken): Promise<ValueUsageCodeLens | undefined> {
+    const { document, binding } = codeLens;
+    const documentKey = document.uri.toString();
+    if (document.isDirty) {
+      const savedUsage = this.savedUsages.get(documentKey)?.get(binding.name);
+      codeLens.command = savedUsage
+        ? this.createCommand(binding, savedUsage, 'Counted at the last save')
+        : { title: 'Save to update references', command: '' };
+      return codeLens;
+    }
+
+    let usage: ValueUsage;
+    try {
+      usage = await this.resolveUsage(document, binding);
+    } catch (error) {
+      console.log('[Bibimbob] Could not resolve value usage CodeLens:', error);
+      usage = { count: 'error', modules: [] };
+    }
+    if (token.isCancellationRequested) {
+      return undefined;
+    }
+
+    const usages = this.savedUsages.get(documentKey) ?? new Map<string, ValueUsage>();
+    usages.set(binding.name, usage);
+    this.savedUsages.set(documentKey, usages);
+    codeLens.command = this.createCommand(binding, usage);
+    return codeLens;
+  }
+
+  private createCommand(binding: LetBinding, usage: ValueUsage, note?: string): vscode.Command {
+    const title = usage.count === '1' ? '1 reference'
+      : /^\d+$/.test(usage.count) ? `${usage.count} references`
+        : 'References unavailable';
+
+    return {
+      title,
+      tooltip: `Show modules that use ${binding.name}` + (note ? ` (${note})` : ''),
+      command: SHOW_VALUE_USAGES,
+      arguments: [binding.name, usage]
+    };
+  }
+
+  // Drop the counts kept for a closed document
+  forget(document: vscode.TextDocument) {
+    this.savedUsages.delete(document.uri.toString());
+  }
+
+  refresh() {
+    this.changeEmitter.fire();
+  }
+
+  dispose() {
+    this.changeEmitter.dispose();
+  }
+}
@@ -0,0 +1,208 @@
+// Merge the dependency graphs of several ReScript packages (e.g. a pnpm/yarn workspace)
+// into one graph. Module names are only unique within a package, so merged modules
+// are identified as `<package>/<Module>`.
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { DependencyEdge, DependencyGraph, ModuleNode, getEdges, linkDependents } from './dependencyGraph';
+
+export interface WorkspacePackage {
+  // `name` from rescript.json/bsconfig.json
+  name: string;
+  projectRoot: string;
+  graph: DependencyGraph;
+}
+
+// Where a module of the merged graph comes from
+export interface ModuleOrigin {
+  packageName: string;
+  projectRoot: string;
+  moduleName: string;
+}
+
+export interface WorkspaceGraph {
+  graph: DependencyGraph;
+  packages: WorkspacePackage[];
+  // Origin of every merged module that belongs to one of the packages (external modules have none)
+  moduleOrigins: Map<string, ModuleOrigin>;
+}
+
+// Workspace graph collapsed to one node per package
+export interface PackageGraph {
+  // Package nodes (named after the package, with the project root as path)
+  graph: DependencyGraph;
+  // Number of module-level imports behind each package edge, keyed by getPackageEdgeKey
+  importCounts: Map<string, number>;
+  // Number of modules in each package
+  moduleCounts: Map<string, number>;
+}
+
+export function getWorkspaceModuleId(packageName: string, moduleName: string): string {
+  return `${packageName}/${moduleName}`;
+}
+
+// Read the package name from a project's rescript.json or bsconfig.json,
+// falling back to the directory name
+export function readProjectName(projectRoot: string): string {
+  for (const configName of ['rescript.json', 'bsconfig.json']) {
+    try {
+      const config = JSON.parse(fs.readFileSync(path.join(projectRoot, configName), 'utf8'));
+      if (config && typeof config.name === 'string' && config.name.length > 0) {
+        return config.name;
+      }
+    } catch {
+      // Missing or unreadable config; try the next one
+    }
+  }
+  return path.basename(projectRoot);
+}
+
+// Find the package that defines a module another package depends on.
+// Prefers the package whose directory contains the reported dependency path.
+function findOwnerPackage(
+  packages: WorkspacePackage[],
+  from: WorkspacePackage,
+  moduleName: string,
+  modulePath: string | null
+): WorkspacePackage | undefined {
+  const owners = packages.filter(pkg => pkg !== from && pkg.graph.modules.get(moduleName)?.external === false);
+  if (owners.length <= 1 || !modulePath) {
+    return owners[0];
+  }
+  return owners.find(pkg => modulePath.startsWith(pkg.projectRoot + path.sep)) ?? owners[0];
+}
+
+// Deepest directory that contains all of the given directories
+function findCommonDirectory(dirs: string[]): string {
+  return dirs.reduce((common, dir) => {
+    while (!(dir + path.sep).startsWith(common + path.sep) && path.dirname(common) !== common) {
+      common = path.dirname(common);
+    }
+    return common;
+  });
+}
+
+// Rename packages that share a name (e.g. two packages called "web" in `apps/web` and `tools/web`)
+// after their path relative to the directory that contains them all, so that their modules get
+// different ids in the merged graph
+export function makePackageNamesUnique(packages: WorkspacePackage[]): WorkspacePackage[] {
+  const rootsByName = new Map<string, string[]>();
+  for (const pkg of packages) {
+    rootsByName.set(pkg.name, [...(rootsByName.get(pkg.name) ?? []), pkg.projectRoot]);
+  }
+  return packages.map(pkg => {
+    const roots = rootsByName.get(pkg.name)!;
+    if (roots.length === 1) {
+      return pkg;
+    }
+    const relativePath = path.relative(findCommonDirectory(roots), pkg.projectRoot).split(path.sep).join('/');
+    return { ...pkg, name: relativePath || pkg.name };
+  });
+}
+
+// Packages that share a name are renamed with makePackageNamesUnique first
+export function mergePackageGraphs(workspacePackages: WorkspacePackage[]): WorkspaceGraph {
+  const packages = makePackageNamesUnique(workspacePackages);
+  const modules = new Map<string, ModuleNode>();
+  const moduleOrigins = new Map<string, ModuleOrigin>();
+  const cycles: string[][] = [];
+
+  // Resolve a module name as seen from one package to its merged id
+  const resolveId = (pkg: WorkspacePackage, moduleName: string): string => {
+    const node = pkg.graph.modules.get(moduleName);
+    if (node && !node.external) {
+      return getWorkspaceModuleId(pkg.name, moduleName);
+    }
+    const owner = findOwnerPackage(packages, pkg, moduleName, node?.path ?? null);
+    return owner ? getWorkspaceModuleId(owner.name, moduleName) : moduleName;
+  };
+
+  for (const pkg of packages) {
+    for (const node of pkg.graph.modules.values()) {
+      if (node.external) {
+        continue;
+      }
+      const id = getWorkspaceModuleId(pkg.name, node.name);
+      modules.set(id, {
+        ...node,
+        name: id,
+        dependencies: node.dependencies.map(dep => resolveId(pkg, dep)),
+        dependents: []
+      });
+      moduleOrigins.set(id, { packageName: pkg.name, projectRoot: pkg.projectRoot, moduleName: node.name });
+    }
+    cycles.push(...pkg.graph.cycles.map(cycle => cycle.map(name => resolveId(pkg, name))));
+  }
+
+  // Dependencies outside every package stay shared, unqualified external nodes
+  for (const pkg of packages) {
+    for (const node of pkg.graph.modules.values()) {
+      const id = resolveId(pkg, node.name);
+      if (node.external && !modules.has(id)) {
+        modules.set(id, { ...node, name: id, dependencies: [], dependents: [] });
+      }
+    }
+  }
+
+  linkDependents(modules);
+
+  return { graph: { modules, cycles }, packages, moduleOrigins };
+}
+
+// Whether an edge connects modules of two different packages
+export function isCrossPackageEdge(workspace: WorkspaceGraph, edge: DependencyEdge): boolean {
+  const from = workspace.moduleOrigins.get(edge.from);
+  const to = workspace.moduleOrigins.get(edge.to);
+  return from !== undefined && to !== undefined && from.packageName !== to.packageName;
+}
+
+// Module ids of the merged graph grouped by package, in package order
+export function getPackageMembers(workspace: WorkspaceGraph): Map<string, string[]> {
+  const members = new Map<string, string[]>(workspace.packages.map(pkg => [pkg.name, []]));
+  for (const [id, origin] of workspace.moduleOrigins) {
+    members.get(origin.packageName)?.push(id);
+  }
+  for (const ids of members.values()) {
+    ids.sort();
+  }
+  return members;
+}
+
+export function getPackageEdgeKey(edge: DependencyEdge): string {
+  return `${edge.from} -> ${edge.to}`;
+}
+
+// Collapse a workspace graph into its packages; every import between modules of
+// two packages adds to the weight of the edge between those packages
+export function collapseToPackages(workspace: WorkspaceGraph): PackageGraph {
+  const modules = new Map<string, ModuleNode>();
+  for (const pkg of workspace.packages) {
+    modules.set(pkg.name, {
+      name: pkg.name,
+      path: pkg.projectRoot,
+      dependencies: [],
+      dependents: [],
+      inCycle: false,
+      external: false
+    });
+  }
+
+  const importCounts = new Map<string, number>();
+  for (const edge of getEdges(workspace.graph).filter(edge => isCrossPackageEdge(workspace, edge))) {
+    const from = workspace.moduleOrigins.get(edge.from)!.packageName;
+    const to = workspace.moduleOrigins.get(edge.to)!.packageName;
+    const key = getPackageEdgeKey({ from, to });
+    importCounts.set(key, (importCounts.get(key) ?? 0) + 1);
+
+    const node = modules.get(from)!;
+    if (!node.dependencies.includes(to)) {
+      node.dependencies.push(to);
+    }
+  }
+
+  linkDependents(modules);
+
+  const moduleCounts = new Map(Array.from(getPackageMembers(workspace), ([name, members]) => [name, members.length]));
+  return { graph: { modules, cycles: [] }, importCounts, moduleCounts };
+}